@@ -1,21 +1,39 @@
-import { MarkdownView, Notice, Plugin } from "obsidian";
+import { MarkdownView, Notice, Plugin, type WorkspaceLeaf, getLinkpath } from "obsidian";
+import { type ActivityFilter, ActivityLog } from "src/activity";
+import { ConfigSync } from "src/config/configSync";
 import { CursorEnv } from "src/editor/cursor";
-import { log } from "src/logger/logger";
-import { DiffModal, type FileDiff } from "src/modals/conflict";
+import { Journal } from "src/journal";
+import { FileSink, type LogModule, RingBufferSink, log, redact } from "src/logger/logger";
+import { DiffModal, type FileDiff, type MergeOutcome } from "src/modals/conflict";
+import { DeletionModal } from "src/modals/deletion";
+import { IntegrityModal } from "src/modals/integrity";
+import { PlanModal } from "src/modals/plan";
+import { ReloadModal } from "src/modals/reload";
+import { ResyncModal } from "src/modals/resync";
+import { TrashModal } from "src/modals/trash";
 import { Syncinator as SyncinatorPlugin } from "src/plugin";
+import type { DocumentStore } from "src/storage/documents";
 import { Disk } from "src/storage/storage";
+import { Trash } from "src/trash";
 import {
+    type ActivityEventMap,
+    type ConflictEventMap,
     type CursorEventMap,
     EventBus,
     type ObsidianEventMap,
     type SnapshotEventMap,
 } from "src/utils/eventBus";
+import { ActivityView, VIEW_TYPE_ACTIVITY } from "src/views/activity";
+import { ConflictsView, VIEW_TYPE_CONFLICTS } from "src/views/conflicts";
+import { DiagnosticsView, VIEW_TYPE_DIAGNOSTICS } from "src/views/diagnostics";
 import { SnapshotView, VIEW_TYPE_SNAPSHOT } from "src/views/snapshots";
 import { ApiClient } from "./src/api/api";
 import { HttpClient } from "./src/api/http";
 import { WsClient } from "./src/api/ws";
 import { DEFAULT_SETTINGS, type PluginSettings, SettingTab } from "./src/settings";
 
+const MEGABYTE = 1024 * 1024;
+
 export default class Syncinator extends Plugin {
     settings: PluginSettings = DEFAULT_SETTINGS;
     private wsClient: WsClient;
@@ -24,25 +42,98 @@ export default class Syncinator extends Plugin {
     snapshotEventBus = new EventBus<SnapshotEventMap>();
     obsidianEventBus = new EventBus<ObsidianEventMap>();
     cursorEventBus = new EventBus<CursorEventMap>();
+    conflictEventBus = new EventBus<ConflictEventMap>();
+    activityEventBus = new EventBus<ActivityEventMap>();
     private cursorEnv: CursorEnv | undefined;
+    private journal: Journal;
+    private activityLog: ActivityLog;
+    private syncinator: SyncinatorPlugin | undefined;
+    private configSync: ConfigSync | undefined;
+    private reloadModal: ReloadModal | null = null;
+    private trash: Trash | undefined;
+    private statusBarItem: HTMLElement | undefined;
+    private logBuffer = new RingBufferSink();
+    private logFile: FileSink | undefined;
+    // the writes flushed on unload
+    private flushing: Promise<void> = Promise.resolve();
+    // kept to be redacted from the copied logs
+    private token = "";
 
     async registerSyncinator() {
-        const plugin = new SyncinatorPlugin(
+        const configDir = this.app.vault.configDir;
+        if (this.settings.configSync) {
+            this.configSync = new ConfigSync(
+                this.app.vault.adapter,
+                this.apiClient,
+                this.wsClient,
+                {
+                    configDir,
+                    categories: this.settings.configCategories,
+                    // the plugin folder contains the credentials
+                    ignore: [`/${this.manifest.dir}/`],
+                },
+                this.promptReload.bind(this),
+            );
+        }
+
+        if (this.settings.useTrash) {
+            this.trash = new Trash(
+                this.app.vault.adapter,
+                `${this.manifest.dir}/trash`,
+                this.settings.trashRetentionDays,
+            );
+            await this.trash.load();
+            await this.trash.purge();
+        }
+
+        this.syncinator = new SyncinatorPlugin(
             this.storage,
             this.apiClient,
             this.wsClient,
             {
                 diffModal: this.wrappedDiffModal.bind(this),
+                confirmDeletion: async (request) =>
+                    await new DeletionModal(this.app, request).open(),
                 snapshotEventBus: this.snapshotEventBus,
                 obsidianEventBus: this.obsidianEventBus,
                 cursorEventBus: this.cursorEventBus,
+                conflictEventBus: this.conflictEventBus,
+                journal: this.journal,
+                configSync: this.configSync,
+                trash: this.trash,
+                activityLog: this.activityLog,
+                confirmPlan: this.settings.previewReconciliation
+                    ? async (steps) => await new PlanModal(this.app, steps).open()
+                    : undefined,
             },
             {
                 conflictResolution: this.settings.conflictResolution,
+                deviceName: this.settings.nickname || "local",
+                lazyDownloadThreshold: this.settings.lazyDownloadThreshold * MEGABYTE,
+                prefetchBudget: this.settings.prefetchBudget * MEGABYTE,
+                include: this.settings.includePatterns,
+                // the configuration is synced only by ConfigSync
+                exclude: [...this.settings.excludePatterns, `/${configDir}/`],
+                massDeletionCount: this.settings.massDeletionCount,
+                massDeletionPercentage: this.settings.massDeletionPercentage,
             },
         );
 
-        await plugin.init();
+        await this.syncinator.init();
+        if (this.syncinator.isPaused()) {
+            new Notice("Sync paused, resume it to apply the changes");
+        }
+
+        if (this.configSync) {
+            await this.configSync.init();
+            this.registerInterval(
+                window.setInterval(async () => {
+                    if (!this.syncinator?.isPaused()) {
+                        await this.configSync?.scan();
+                    }
+                }, 30 * 1000),
+            );
+        }
 
         this.registerEvent(
             this.app.vault.on("create", (file) => {
@@ -67,6 +158,20 @@ export default class Syncinator extends Plugin {
             }),
         );
 
+        this.registerEvent(
+            this.app.workspace.on("file-open", (file) => {
+                if (!file) {
+                    return;
+                }
+
+                const metadata = this.app.metadataCache.getFileCache(file);
+                const links = [...(metadata?.embeds ?? []), ...(metadata?.links ?? [])].map(
+                    (link) => getLinkpath(link.link),
+                );
+                this.obsidianEventBus.emit("file-open", { file, links });
+            }),
+        );
+
         this.cursorEventBus.on("trigger-cursor-update", async (filepath) => {
             // send cursor position
             const activeView = this.app.workspace.activeEditor;
@@ -94,12 +199,36 @@ export default class Syncinator extends Plugin {
         });
     }
 
+    private promptReload(paths: string[]) {
+        if (this.reloadModal) {
+            this.reloadModal.addPaths(paths);
+            return;
+        }
+
+        this.reloadModal = new ReloadModal(this.app, paths, () => {
+            this.reloadModal = null;
+        });
+        this.reloadModal.open();
+    }
+
+    private updateStatusBar() {
+        if (!this.statusBarItem) {
+            return;
+        }
+
+        const { state, pending } = this.syncinator?.getStatus() ?? { state: "offline", pending: 0 };
+        const text =
+            pending > 0 ? `Syncinator: ${state} (${pending} pending)` : `Syncinator: ${state}`;
+        this.statusBarItem.setText(text);
+    }
+
     private async refreshToken() {
         try {
             const res = await this.apiClient.login(
                 this.settings.workspaceName,
                 this.settings.workspacePass,
             );
+            this.token = res.token;
             this.apiClient.setAuthorizationHeader(res.token);
             this.wsClient.setAuthorization(res.token);
         } catch (error) {
@@ -112,6 +241,17 @@ export default class Syncinator extends Plugin {
         await this.loadSettings();
         this.addSettingTab(new SettingTab(this.app, this));
         log.setGlobalLevel(this.settings.logLevel);
+        for (const [module, level] of Object.entries(this.settings.moduleLogLevels)) {
+            log.setModuleLevel(module as LogModule, level);
+        }
+        this.register(log.addSink(this.logBuffer));
+        if (this.settings.logToFile) {
+            this.logFile = new FileSink(
+                this.app.vault.adapter,
+                `${this.manifest.dir}/syncinator.log`,
+            );
+            this.register(log.addSink(this.logFile));
+        }
 
         // Init
         this.storage = new Disk(this.app.vault);
@@ -122,18 +262,240 @@ export default class Syncinator extends Plugin {
         );
         this.apiClient = new ApiClient(httpClient);
         this.wsClient = new WsClient(this.settings.useTLS ? "wss" : "ws", this.settings.domain);
+        this.journal = new Journal(this.pluginFolderStore("journal"));
+        this.activityLog = new ActivityLog(this.pluginFolderStore(), this.activityEventBus);
+        await this.activityLog.load();
 
         await this.refreshToken();
         this.registerInterval(
             window.setInterval(async () => await this.refreshToken(), 5 * 60 * 1000),
         );
 
+        this.addCommand({
+            id: "resolve-pending-conflicts",
+            name: "Resolve pending conflicts",
+            callback: async () => {
+                const conflicts = this.syncinator?.getPendingConflicts() ?? [];
+                if (conflicts.length === 0) {
+                    new Notice("No pending conflicts");
+                    return;
+                }
+                await this.syncinator?.resolvePendingConflicts();
+            },
+        });
+
+        this.addCommand({
+            id: "restore-from-trash",
+            name: "Restore file from trash",
+            callback: () => {
+                const entries = this.trash?.list() ?? [];
+                if (entries.length === 0) {
+                    new Notice("The trash is empty");
+                    return;
+                }
+
+                new TrashModal(this.app, entries, async (entry) => {
+                    try {
+                        await this.syncinator?.restoreFromTrash(entry.id);
+                        new Notice(`"${entry.workspacePath}" restored`);
+                    } catch (error) {
+                        log.error(error);
+                        new Notice(`Error while restoring "${entry.workspacePath}"`);
+                    }
+                }).open();
+            },
+        });
+
+        this.addCommand({
+            id: "pause-sync",
+            name: "Pause sync",
+            checkCallback: (checking) => {
+                if (!this.syncinator || this.syncinator.isPaused()) {
+                    return false;
+                }
+                if (!checking) {
+                    this.syncinator.pause();
+                    this.updateStatusBar();
+                }
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: "resume-sync",
+            name: "Resume sync",
+            checkCallback: (checking) => {
+                if (!this.syncinator?.isPaused()) {
+                    return false;
+                }
+                if (!checking) {
+                    this.syncinator.resume().then(
+                        () => this.updateStatusBar(),
+                        (error) => log.error("error while resuming sync", error),
+                    );
+                    this.updateStatusBar();
+                }
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: "force-resync",
+            name: "Force full resync",
+            callback: () => {
+                const syncinator = this.syncinator;
+                if (!syncinator) {
+                    new Notice("Syncinator is not initialized yet");
+                    return;
+                }
+                if (syncinator.isPaused()) {
+                    new Notice("Resume the sync before resyncing");
+                    return;
+                }
+
+                new ResyncModal(this.app, async (strategy) => {
+                    new Notice("Full resync started");
+                    try {
+                        const summary = await syncinator.resync(strategy);
+                        new Notice(
+                            `Full resync completed: ${summary.created} created, ${summary.updated} updated, ` +
+                                `${summary.conflicted} conflicted, ${summary.skipped} skipped, ${summary.failed} failed`,
+                        );
+                    } catch (error) {
+                        log.error(error);
+                        new Notice("Error during the full resync");
+                    }
+                }).open();
+            },
+        });
+
+        this.addCommand({
+            id: "check-vault-integrity",
+            name: "Check vault integrity",
+            callback: async () => {
+                const syncinator = this.syncinator;
+                if (!syncinator) {
+                    new Notice("Syncinator is not initialized yet");
+                    return;
+                }
+
+                new Notice("Checking the vault integrity");
+                try {
+                    const issues = await syncinator.checkIntegrity();
+                    if (issues.length === 0) {
+                        new Notice("The vault matches the server");
+                        return;
+                    }
+
+                    new IntegrityModal(this.app, issues, async (issue, action) => {
+                        try {
+                            await syncinator.repairIntegrityIssue(issue, action);
+                            return true;
+                        } catch (error) {
+                            log.error(error);
+                            new Notice(`Error while repairing "${issue.path}"`);
+                            return false;
+                        }
+                    }).open();
+                } catch (error) {
+                    log.error(error);
+                    new Notice("Error while checking the vault integrity");
+                }
+            },
+        });
+
+        this.statusBarItem = this.addStatusBarItem();
+        this.updateStatusBar();
+        this.registerInterval(window.setInterval(() => this.updateStatusBar(), 1000));
+
         this.registerView(
             VIEW_TYPE_SNAPSHOT,
             (leaf) => new SnapshotView(leaf, this.snapshotEventBus),
         );
         this.app.workspace.onLayoutReady(() => this.activateSnapshotView());
 
+        this.registerView(
+            VIEW_TYPE_CONFLICTS,
+            (leaf) =>
+                new ConflictsView(
+                    leaf,
+                    this.conflictEventBus,
+                    this.syncinator?.getPendingConflicts() ?? [],
+                ),
+        );
+        this.addCommand({
+            id: "open-conflicts-view",
+            name: "Open conflict inbox",
+            callback: async () => await this.activateConflictsView(),
+        });
+
+        this.registerView(
+            VIEW_TYPE_ACTIVITY,
+            (leaf) =>
+                new ActivityView(
+                    leaf,
+                    this.activityLog,
+                    this.activityEventBus,
+                    this.exportActivity.bind(this),
+                ),
+        );
+        this.addCommand({
+            id: "open-activity-view",
+            name: "Open sync activity",
+            callback: async () => await this.activateActivityView(),
+        });
+        this.registerView(
+            VIEW_TYPE_DIAGNOSTICS,
+            (leaf) =>
+                new DiagnosticsView(
+                    leaf,
+                    () => this.syncinator?.getMetrics(),
+                    () => this.syncinator?.resetMetrics(),
+                ),
+        );
+        this.addCommand({
+            id: "open-diagnostics-view",
+            name: "Open sync diagnostics",
+            callback: async () => await this.activateDiagnosticsView(),
+        });
+        this.addCommand({
+            id: "show-file-activity",
+            name: "Show sync history of the current file",
+            checkCallback: (checking) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file) {
+                    return false;
+                }
+                if (!checking) {
+                    this.activateActivityView().then((view) => view?.showHistory(file.path));
+                }
+                return true;
+            },
+        });
+        this.addCommand({
+            id: "copy-recent-logs",
+            name: "Copy recent logs",
+            callback: async () => {
+                const text = redact(this.logBuffer.recent().join("\n"), [
+                    this.settings.workspacePass,
+                    this.token,
+                ]);
+                try {
+                    await navigator.clipboard.writeText(text);
+                    new Notice("Recent logs copied to the clipboard");
+                } catch (error) {
+                    log.error(error);
+                    new Notice("Error while copying the logs");
+                }
+            },
+        });
+
+        this.addCommand({
+            id: "export-activity-log",
+            name: "Export sync activity to JSON",
+            callback: async () => await this.exportActivity(),
+        });
+
         if (this.settings.showCursors) {
             this.cursorEnv = new CursorEnv(
                 this.cursorEventBus,
@@ -149,10 +511,63 @@ export default class Syncinator extends Plugin {
         }, 2000);
     }
 
-    onunload() {
+    // returns the pending writes, obsidian doesn't wait for them but they are not dropped
+    onunload(): Promise<void> {
         this.app.workspace.detachLeavesOfType(VIEW_TYPE_SNAPSHOT);
+        this.app.workspace.detachLeavesOfType(VIEW_TYPE_CONFLICTS);
+        this.app.workspace.detachLeavesOfType(VIEW_TYPE_ACTIVITY);
+        this.app.workspace.detachLeavesOfType(VIEW_TYPE_DIAGNOSTICS);
         this.wsClient.close(true);
         this.cursorEnv?.close();
+
+        this.flushing = this.flushing.then(() => this.flush());
+        return this.flushing;
+    }
+
+    // the log file is written last, it includes what is logged while writing the others
+    private async flush() {
+        await this.journal.flush();
+        await this.activityLog.flush();
+        await this.logFile?.flush();
+    }
+
+    // stores the documents as files of the plugin folder, or of a folder in it
+    private pluginFolderStore(folder?: string): DocumentStore {
+        const adapter = this.app.vault.adapter;
+        const folderPath = folder ? `${this.manifest.dir}/${folder}` : `${this.manifest.dir}`;
+        const filePath = (key: string) => `${folderPath}/${key}.json`;
+
+        return {
+            async load(key: string) {
+                if (!(await adapter.exists(filePath(key)))) {
+                    return null;
+                }
+                return await adapter.read(filePath(key));
+            },
+            async save(key: string, data: string) {
+                if (!(await adapter.exists(folderPath))) {
+                    await adapter.mkdir(folderPath);
+                }
+                await adapter.write(filePath(key), data);
+            },
+            async remove(key: string) {
+                if (await adapter.exists(filePath(key))) {
+                    await adapter.remove(filePath(key));
+                }
+            },
+        };
+    }
+
+    // writes the activity log in the plugin folder, to be attached to bug reports
+    private async exportActivity(filter: ActivityFilter = {}) {
+        const exportPath = `${this.manifest.dir}/activity-${Date.now()}.json`;
+        try {
+            await this.app.vault.adapter.write(exportPath, this.activityLog.export(filter));
+            new Notice(`Sync activity exported to "${exportPath}"`);
+        } catch (error) {
+            log.error(error);
+            new Notice("Error while exporting the sync activity");
+        }
     }
 
     async loadSettings() {
@@ -184,8 +599,70 @@ export default class Syncinator extends Plugin {
         }
     }
 
-    async wrappedDiffModal(filename: string, local: FileDiff, remote: FileDiff): Promise<string> {
-        const modal = new DiffModal(this.app, filename, local, remote);
+    async activateConflictsView() {
+        const { workspace } = this.app;
+
+        const existingView = workspace.getLeavesOfType(VIEW_TYPE_CONFLICTS)[0];
+        if (existingView) {
+            workspace.revealLeaf(existingView);
+            return;
+        }
+
+        const leaf = workspace.getRightLeaf(false);
+        if (leaf) {
+            await leaf.setViewState({
+                type: VIEW_TYPE_CONFLICTS,
+                active: true,
+            });
+            workspace.revealLeaf(leaf);
+        }
+    }
+
+    async activateActivityView(): Promise<ActivityView | undefined> {
+        const { workspace } = this.app;
+
+        let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(VIEW_TYPE_ACTIVITY)[0] ?? null;
+        if (!leaf) {
+            leaf = workspace.getRightLeaf(false);
+            await leaf?.setViewState({
+                type: VIEW_TYPE_ACTIVITY,
+                active: true,
+            });
+        }
+        if (!leaf) {
+            return undefined;
+        }
+
+        workspace.revealLeaf(leaf);
+        return leaf.view instanceof ActivityView ? leaf.view : undefined;
+    }
+
+    async activateDiagnosticsView() {
+        const { workspace } = this.app;
+
+        const existingView = workspace.getLeavesOfType(VIEW_TYPE_DIAGNOSTICS)[0];
+        if (existingView) {
+            workspace.revealLeaf(existingView);
+            return;
+        }
+
+        const leaf = workspace.getRightLeaf(false);
+        if (leaf) {
+            await leaf.setViewState({
+                type: VIEW_TYPE_DIAGNOSTICS,
+                active: true,
+            });
+            workspace.revealLeaf(leaf);
+        }
+    }
+
+    async wrappedDiffModal(
+        filename: string,
+        local: FileDiff,
+        remote: FileDiff,
+        base: string | null = null,
+    ): Promise<MergeOutcome> {
+        const modal = new DiffModal(this.app, filename, local, remote, base);
         return await modal.open();
     }
 }
@@ -0,0 +1,120 @@
+import assert from "node:assert";
+import test, { describe } from "node:test";
+import { type ActivityEntry, ActivityLog } from "./activity";
+import type { DocumentStore } from "./storage/documents";
+import { type ActivityEventMap, EventBus } from "./utils/eventBus";
+
+function createMemoryStore(): DocumentStore {
+    const documents = new Map<string, string>();
+
+    return {
+        async load(key: string) {
+            return documents.get(key) ?? null;
+        },
+        async save(key: string, data: string) {
+            documents.set(key, data);
+        },
+        async remove(key: string) {
+            documents.delete(key);
+        },
+    };
+}
+
+describe("ActivityLog", () => {
+    test("should filter the entries, newest first", () => {
+        const activityLog = new ActivityLog();
+
+        activityLog.record({
+            direction: "outgoing",
+            path: "notes/foo.md",
+            operation: "create",
+            outcome: "success",
+        });
+        activityLog.record({
+            direction: "incoming",
+            path: "notes/bar.md",
+            operation: "update",
+            version: 3,
+            outcome: "error",
+            error: "not found",
+        });
+        activityLog.record({
+            direction: "incoming",
+            path: "notes/foo.md",
+            operation: "update",
+            version: 2,
+            outcome: "success",
+        });
+
+        assert.deepEqual(
+            activityLog.list().map((entry) => entry.path),
+            ["notes/foo.md", "notes/bar.md", "notes/foo.md"],
+        );
+        assert.deepEqual(
+            activityLog.list({ direction: "incoming", outcome: "success" }).map((e) => e.version),
+            [2],
+        );
+        assert.deepEqual(
+            activityLog.history("notes/foo.md").map((entry) => entry.operation),
+            ["update", "create"],
+        );
+        assert.deepEqual(
+            activityLog.history("notes/foo.md", { direction: "outgoing" }).map((e) => e.operation),
+            ["create"],
+        );
+        assert.deepEqual(activityLog.history("notes/foo"), []);
+        assert.equal(activityLog.list({ path: "bar" }).length, 1);
+    });
+
+    test("should drop the oldest entries", () => {
+        const activityLog = new ActivityLog(null, null, 2);
+
+        for (const path of ["a.md", "b.md", "c.md"]) {
+            activityLog.record({
+                direction: "outgoing",
+                path,
+                operation: "create",
+                outcome: "success",
+            });
+        }
+
+        assert.deepEqual(
+            activityLog.list().map((entry) => entry.path),
+            ["c.md", "b.md"],
+        );
+    });
+
+    test("should persist, reload and export the entries", async () => {
+        const store = createMemoryStore();
+        const activityLog = new ActivityLog(store);
+
+        const entry = activityLog.record(
+            { direction: "outgoing", path: "foo.md", operation: "delete", outcome: "success" },
+            new Date(0),
+        );
+        await activityLog.flush();
+
+        const reloaded = new ActivityLog(store);
+        await reloaded.load();
+
+        assert.deepEqual(reloaded.list(), [entry]);
+        assert.deepEqual(JSON.parse(reloaded.export()), [entry]);
+    });
+
+    test("should notify the recorded entries", async () => {
+        const eventBus = new EventBus<ActivityEventMap>();
+        const recorded: ActivityEntry[] = [];
+        eventBus.on("activity-recorded", async (entry) => {
+            recorded.push(entry);
+        });
+
+        const entry = new ActivityLog(null, eventBus).record({
+            direction: "incoming",
+            path: "foo.md",
+            operation: "rename",
+            outcome: "success",
+        });
+
+        assert.deepEqual(recorded, [entry]);
+    });
+});
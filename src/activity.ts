@@ -0,0 +1,141 @@
+import { log as rootLog } from "src/logger/logger";
+import { type DocumentStore, DocumentWriter } from "./storage/documents";
+import type { ActivityEventMap, EventBus } from "./utils/eventBus";
+
+const log = rootLog.child("sync");
+
+// outgoing: a local change sent to the server, incoming: a remote change applied locally
+export type ActivityDirection = "outgoing" | "incoming";
+
+export type ActivityOperation = "create" | "update" | "delete" | "rename" | "conflict";
+
+export interface ActivityEntry {
+    timestamp: string;
+    direction: ActivityDirection;
+    path: string;
+    operation: ActivityOperation;
+    version?: number;
+    outcome: "success" | "error";
+    error?: string;
+}
+
+export interface ActivityFilter {
+    // matches the paths containing it
+    path?: string;
+    direction?: ActivityDirection;
+    outcome?: ActivityEntry["outcome"];
+}
+
+interface ActivityData {
+    version: number;
+    entries: ActivityEntry[];
+}
+
+const ACTIVITY_FORMAT_VERSION = 1;
+const ACTIVITY_KEY = "activity";
+
+/**
+ * ActivityLog records what the sync engine does to every file, the oldest
+ * entries are dropped beyond the max size. Without a store it behaves as an
+ * in-memory log.
+ */
+export class ActivityLog {
+    private store: DocumentStore | null;
+    private writer: DocumentWriter | null;
+    private eventBus: EventBus<ActivityEventMap> | null;
+    private maxEntries: number;
+    private entries: ActivityEntry[] = [];
+
+    constructor(
+        store: DocumentStore | null = null,
+        eventBus: EventBus<ActivityEventMap> | null = null,
+        maxEntries = 1000,
+        saveDelayMs?: number,
+    ) {
+        this.store = store;
+        this.writer = store
+            ? new DocumentWriter(store, this.serialize.bind(this), saveDelayMs)
+            : null;
+        this.eventBus = eventBus;
+        this.maxEntries = maxEntries;
+    }
+
+    async load(): Promise<void> {
+        if (!this.store) {
+            return;
+        }
+        this.entries = [];
+
+        try {
+            const raw = await this.store.load(ACTIVITY_KEY);
+            if (!raw) {
+                return;
+            }
+
+            const data: ActivityData = JSON.parse(raw);
+            if (data.version !== ACTIVITY_FORMAT_VERSION) {
+                log.warn(`ignoring activity log with unsupported version ${data.version}`);
+                return;
+            }
+            this.entries = data.entries.slice(-this.maxEntries);
+        } catch (error) {
+            log.error("error while loading activity log", error);
+        }
+    }
+
+    record(entry: Omit<ActivityEntry, "timestamp">, now: Date = new Date()): ActivityEntry {
+        const recorded: ActivityEntry = { timestamp: now.toISOString(), ...entry };
+        this.entries.push(recorded);
+        if (this.entries.length > this.maxEntries) {
+            this.entries.splice(0, this.entries.length - this.maxEntries);
+        }
+
+        this.writer?.markDirty(ACTIVITY_KEY);
+        this.eventBus?.emit("activity-recorded", { ...recorded });
+        return recorded;
+    }
+
+    /**
+     * Returns the entries matching the filter, newest first
+     */
+    list(filter: ActivityFilter = {}): ActivityEntry[] {
+        return this.entries
+            .filter(
+                (entry) =>
+                    (!filter.path || entry.path.includes(filter.path)) &&
+                    (!filter.direction || entry.direction === filter.direction) &&
+                    (!filter.outcome || entry.outcome === filter.outcome),
+            )
+            .map((entry) => ({ ...entry }))
+            .reverse();
+    }
+
+    // the entries of a single file matching the filter, newest first
+    history(path: string, filter: ActivityFilter = {}): ActivityEntry[] {
+        return this.list({ ...filter, path }).filter((entry) => entry.path === path);
+    }
+
+    clear() {
+        this.entries = [];
+        this.writer?.markDirty(ACTIVITY_KEY);
+    }
+
+    export(filter: ActivityFilter = {}): string {
+        return JSON.stringify(this.list(filter), null, 2);
+    }
+
+    /**
+     * Waits until every recorded entry is written to the store
+     */
+    async flush(): Promise<void> {
+        await this.writer?.flush();
+    }
+
+    private serialize(): string {
+        const data: ActivityData = {
+            version: ACTIVITY_FORMAT_VERSION,
+            entries: this.entries,
+        };
+        return JSON.stringify(data);
+    }
+}
@@ -0,0 +1,61 @@
+import assert from "node:assert";
+import { describe, test } from "node:test";
+import { Metrics } from "../metrics";
+import { ApiClient } from "./api";
+import { HttpClient } from "./http";
+
+describe("ApiClient", () => {
+    test("should download ranges sent with the content type of the file", async (t) => {
+        const content = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10, 0, 255]);
+        t.mock.method(globalThis, "fetch", async (_url: string, init: RequestInit) => {
+            const range = (init.headers as Record<string, string>).Range;
+            const [start, end] = range.replace("bytes=", "").split("-").map(Number);
+            const last = Math.min(end, content.byteLength - 1);
+
+            return new Response(content.slice(start, last + 1), {
+                status: 206,
+                headers: {
+                    "Content-Type": "image/png",
+                    "Content-Range": `bytes ${start}-${last}/${content.byteLength}`,
+                },
+            });
+        });
+
+        const apiClient = new ApiClient(new HttpClient("http", "localhost"));
+        const downloaded = await apiClient.download(1, () => {}, 4);
+
+        assert.deepEqual(new Uint8Array(downloaded), content);
+    });
+
+    test("should count the bytes sent and received", async (t) => {
+        const folder = {
+            id: 1,
+            workspacePath: "àèì",
+            createdAt: "",
+            updatedAt: "",
+            workspaceId: 1,
+        };
+        t.mock.method(globalThis, "fetch", async () => {
+            return new Response(JSON.stringify(folder), {
+                status: 201,
+                headers: { "Content-Type": "application/json" },
+            });
+        });
+
+        const metrics = new Metrics();
+        const apiClient = new ApiClient(new HttpClient("http", "localhost"));
+        apiClient.useMetrics(metrics);
+        await apiClient.createFolder(folder.workspacePath);
+
+        const { counters } = metrics.snapshot();
+        const encoder = new TextEncoder();
+        assert.strictEqual(
+            counters["http.bytesOut"],
+            encoder.encode(JSON.stringify({ path: folder.workspacePath })).byteLength,
+        );
+        assert.strictEqual(
+            counters["http.bytesIn"],
+            encoder.encode(JSON.stringify(folder)).byteLength,
+        );
+    });
+});
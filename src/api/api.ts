@@ -1,8 +1,10 @@
 import { StatusCodes } from "http-status-codes";
 import path from "path-browserify";
 import type { DiffChunk } from "src/diff/diff";
+import { isTextMime } from "src/utils/mime";
+import type { Metrics } from "../metrics";
 import type { HttpClient } from "./http";
-import { Multipart } from "./multipart";
+import { Multipart, parseMultipartStream, toArrayBuffer } from "./multipart";
 
 export declare interface File {
     id: number;
@@ -14,12 +16,22 @@ export declare interface File {
     updatedAt: string;
     workspaceId: number;
     version: number;
+    // content size in bytes, when reported by the server
+    size?: number;
 }
 
 export declare interface FileWithContent extends File {
     content: string | ArrayBuffer;
 }
 
+export declare interface Folder {
+    id: number;
+    workspacePath: string;
+    createdAt: string;
+    updatedAt: string;
+    workspaceId: number;
+}
+
 export declare interface Snapshot {
     fileId: number;
     version: number;
@@ -43,10 +55,39 @@ export declare interface Operation {
     createdAt: string;
 }
 
+export declare interface UploadSession {
+    id: string;
+    workspacePath: string;
+    size: number;
+    // hash of the whole content, verified by the server on completion
+    hash: string;
+    // bytes received by the server
+    offset: number;
+}
+
+export type UploadProgress = (session: UploadSession) => void;
+
 declare interface UpdateFile {
     path: string;
 }
 
+declare interface FolderPath {
+    path: string;
+}
+
+declare interface CreateUpload {
+    path: string;
+    size: number;
+    hash: string;
+}
+
+// size of the ranges sent by a resumable upload
+export const UPLOAD_CHUNK_SIZE = 4 * 1024 * 1024;
+// size of the ranges requested by a ranged download
+export const DOWNLOAD_CHUNK_SIZE = 4 * 1024 * 1024;
+
+export type DownloadProgress = (downloaded: number, size: number) => void;
+
 export interface WorkspaceCredentials {
     name: string;
     password: string;
@@ -62,6 +103,11 @@ export class ApiClient {
         this.client = client;
     }
 
+    // counts the bytes sent and received
+    useMetrics(metrics: Metrics) {
+        this.client.useMetrics(metrics);
+    }
+
     async fetchFiles(): Promise<File[]> {
         const res = await this.client.get<File[]>("/v1/api/file");
 
@@ -85,35 +131,69 @@ export class ApiClient {
     }
 
     async fetchFile(fileId: number): Promise<FileWithContent> {
-        const res = await this.client.get<ArrayBuffer>(`/v1/api/file/${fileId}`);
+        return await this.fetchWithContent<File>(
+            `/v1/api/file/${fileId}`,
+            "error while fetching file content",
+        );
+    }
 
-        if (res.status !== StatusCodes.OK) {
-            throw new Error(`error while fetching file content ${res.data}`);
-        }
+    /**
+     * Fetches the bytes of the file content in [start, end], it returns them with
+     * the total size of the content
+     */
+    async fetchFileRange(
+        fileId: number,
+        start: number,
+        end: number,
+    ): Promise<{ content: Uint8Array; size: number }> {
+        const res = await this.client.getBinary(`/v1/api/file/${fileId}/content`, {
+            Range: `bytes=${start}-${end}`,
+        });
 
-        const contentType = res.headers.get("Content-Type");
-        if (!contentType || !contentType.startsWith("multipart/mixed")) {
-            throw new Error("Unexpected Content-Type, expected multipart/mixed");
+        // servers ignoring the range send the whole content
+        if (res.status === StatusCodes.OK) {
+            return { content: new Uint8Array(res.data), size: res.data.byteLength };
         }
 
-        const multipart = new Multipart().parseParts(contentType, res.data);
-        const filePart = multipart.files?.[0] ?? null;
-        const metadataPart = multipart.fileds.find((field) => field.name === "metadata");
+        if (res.status !== StatusCodes.PARTIAL_CONTENT) {
+            throw new Error(`error while fetching file range: ${res.data}`);
+        }
 
-        if (!metadataPart || !filePart) {
-            throw new Error("Incomplete multipart response");
+        const contentRange = res.headers.get("Content-Range");
+        const size = Number(contentRange?.split("/")[1]);
+        if (Number.isNaN(size)) {
+            throw new Error(`invalid Content-Range in response: ${contentRange}`);
         }
 
-        // Extract and parse the metadata
-        const metadata: File = JSON.parse(metadataPart.value);
+        return { content: new Uint8Array(res.data), size };
+    }
 
-        // TODO: optimize this using streams
-        const fileWithContent: FileWithContent = {
-            ...metadata,
-            content: filePart.value,
-        };
+    /**
+     * Downloads the file content with consecutive range requests
+     */
+    async download(
+        fileId: number,
+        onProgress: DownloadProgress = () => {},
+        chunkSize = DOWNLOAD_CHUNK_SIZE,
+    ): Promise<ArrayBuffer> {
+        const first = await this.fetchFileRange(fileId, 0, chunkSize - 1);
+        const content = new Uint8Array(first.size);
+        content.set(first.content.subarray(0, first.size));
+
+        let offset = first.content.byteLength;
+        onProgress(offset, first.size);
+        while (offset < first.size) {
+            const range = await this.fetchFileRange(fileId, offset, offset + chunkSize - 1);
+            if (range.content.byteLength === 0 || range.size !== first.size) {
+                throw new Error(`file ${fileId} changed while downloading`);
+            }
+
+            content.set(range.content.subarray(0, first.size - offset), offset);
+            offset += range.content.byteLength;
+            onProgress(offset, first.size);
+        }
 
-        return fileWithContent;
+        return content.buffer;
     }
 
     async fetchSnapshots(fileId: number): Promise<Snapshot[]> {
@@ -127,37 +207,53 @@ export class ApiClient {
     }
 
     async fetchSnapshot(fileId: number, version: number): Promise<SnapshotWithContent> {
-        const res = await this.client.get<ArrayBuffer>(
+        return await this.fetchWithContent<Snapshot>(
             `/v1/api/file/${fileId}/snapshot/${version}`,
+            "error while fetching snapshot content",
         );
+    }
+
+    /**
+     * Fetches a multipart/mixed response made of the metadata and the content of a file.
+     * Text files are decoded, binaries are kept as they are.
+     */
+    private async fetchWithContent<T extends { mimeType: string }>(
+        endpoint: string,
+        errorMessage: string,
+    ): Promise<T & { content: string | ArrayBuffer }> {
+        const res = await this.client.stream(endpoint);
 
         if (res.status !== StatusCodes.OK) {
-            throw new Error(`error while fetching snapshot content ${res.data}`);
+            await res.data.cancel();
+            throw new Error(`${errorMessage} ${res.status}`);
         }
 
         const contentType = res.headers.get("Content-Type");
         if (!contentType || !contentType.startsWith("multipart/mixed")) {
+            await res.data.cancel();
             throw new Error("Unexpected Content-Type, expected multipart/mixed");
         }
 
-        const multipart = new Multipart().parseParts(contentType, res.data);
-        const filePart = multipart.files?.[0] ?? null;
-        const metadataPart = multipart.fileds.find((field) => field.name === "metadata");
+        let metadata: T | null = null;
+        let content: Uint8Array | null = null;
+        for await (const part of parseMultipartStream(contentType, res.data)) {
+            if (part.name === "metadata" && part.filename === "") {
+                metadata = JSON.parse(new TextDecoder().decode(part.content));
+            } else if (part.filename !== "" && content === null) {
+                content = part.content;
+            }
+        }
 
-        if (!metadataPart || !filePart) {
+        if (!metadata || !content) {
             throw new Error("Incomplete multipart response");
         }
 
-        // Extract and parse the metadata
-        const metadata: Snapshot = JSON.parse(metadataPart.value);
-
-        // TODO: optimize this using streams
-        const fileWithContent: SnapshotWithContent = {
+        return {
             ...metadata,
-            content: filePart.value,
+            content: isTextMime(metadata.mimeType)
+                ? new TextDecoder().decode(content)
+                : toArrayBuffer(content),
         };
-
-        return fileWithContent;
     }
 
     async createFile(filepath: string, content: string | ArrayBuffer): Promise<File> {
@@ -168,7 +264,7 @@ export class ApiClient {
         const body = multipart.build();
         const res = await this.client.post<File>("/v1/api/file", body, {
             "Content-Type": multipart.contentType(),
-            "Content-Length": `${body.length}`,
+            "Content-Length": `${body.byteLength}`,
         });
         if (res.status !== StatusCodes.CREATED) {
             throw new Error(`error while creating file: ${res.data}`);
@@ -177,6 +273,89 @@ export class ApiClient {
         return res.data ?? {};
     }
 
+    async createUpload(filepath: string, size: number, hash: string): Promise<UploadSession> {
+        const body: CreateUpload = { path: filepath, size, hash };
+
+        const res = await this.client.post<UploadSession>("/v1/api/upload", body);
+
+        if (res.status !== StatusCodes.CREATED) {
+            throw new Error(`error while creating upload: ${res.data}`);
+        }
+
+        return res.data;
+    }
+
+    async fetchUpload(uploadId: string): Promise<UploadSession> {
+        const res = await this.client.get<UploadSession>(`/v1/api/upload/${uploadId}`);
+
+        if (res.status !== StatusCodes.OK) {
+            throw new Error(`error while fetching upload: ${res.data}`);
+        }
+
+        return res.data;
+    }
+
+    async uploadRange(
+        uploadId: string,
+        offset: number,
+        chunk: Uint8Array,
+        size: number,
+    ): Promise<UploadSession> {
+        const res = await this.client.put<UploadSession>(`/v1/api/upload/${uploadId}`, chunk, {
+            "Content-Type": "application/octet-stream",
+            "Content-Range": `bytes ${offset}-${offset + chunk.byteLength - 1}/${size}`,
+        });
+
+        if (res.status !== StatusCodes.OK) {
+            throw new Error(`error while uploading range: ${res.data}`);
+        }
+
+        return res.data;
+    }
+
+    async completeUpload(uploadId: string): Promise<File> {
+        const res = await this.client.post<File>(`/v1/api/upload/${uploadId}/complete`, {});
+
+        if (res.status !== StatusCodes.CREATED) {
+            throw new Error(`error while completing upload: ${res.data}`);
+        }
+
+        return res.data;
+    }
+
+    /**
+     * Sends the content missing from the upload session in ranges and completes it.
+     * The session can be resumed from the last acknowledged offset if it fails.
+     */
+    async upload(
+        session: UploadSession,
+        content: Uint8Array,
+        onProgress: UploadProgress = () => {},
+        chunkSize = UPLOAD_CHUNK_SIZE,
+    ): Promise<File> {
+        if (content.byteLength !== session.size) {
+            throw new Error(`upload size mismatch: ${content.byteLength} ${session.size}`);
+        }
+
+        let current = session;
+        while (current.offset < current.size) {
+            const chunk = content.subarray(current.offset, current.offset + chunkSize);
+            const offset = current.offset;
+            current = await this.uploadRange(current.id, offset, chunk, current.size);
+            if (current.offset <= offset) {
+                throw new Error(`upload of ${session.workspacePath} not progressing`);
+            }
+            onProgress(current);
+        }
+
+        const file = await this.completeUpload(current.id);
+        if (file.hash !== session.hash) {
+            throw new Error(`hash mismatch after upload of ${session.workspacePath}`);
+        }
+
+        return file;
+    }
+
     async updateFile(fileId: number, path: string): Promise<File> {
         const body: UpdateFile = { path };
 
@@ -189,6 +368,25 @@ export class ApiClient {
         return res.data ?? {};
     }
 
+    async updateFileContent(
+        fileId: number,
+        filepath: string,
+        content: string | ArrayBuffer,
+    ): Promise<File> {
+        const multipart = new Multipart().createFormFile("file", path.basename(filepath), content);
+
+        const body = multipart.build();
+        const res = await this.client.put<File>(`/v1/api/file/${fileId}/content`, body, {
+            "Content-Type": multipart.contentType(),
+            "Content-Length": `${body.byteLength}`,
+        });
+        if (res.status !== StatusCodes.OK) {
+            throw new Error(`error while updating file content: ${res.data}`);
+        }
+
+        return res.data ?? {};
+    }
+
     async deleteFile(fileId: number): Promise<void> {
         const res = await this.client.delete(`/v1/api/file/${fileId}`);
 
@@ -197,6 +395,58 @@ export class ApiClient {
         }
     }
 
+    async fetchFolders(): Promise<Folder[]> {
+        const res = await this.client.get<Folder[]>("/v1/api/folder");
+
+        if (res.status !== StatusCodes.OK) {
+            throw new Error(`error while fetching folders: ${res.data}`);
+        }
+
+        return res.data ?? [];
+    }
+
+    async fetchFolder(folderId: number): Promise<Folder> {
+        const res = await this.client.get<Folder>(`/v1/api/folder/${folderId}`);
+
+        if (res.status !== StatusCodes.OK) {
+            throw new Error(`error while fetching folder: ${res.data}`);
+        }
+
+        return res.data;
+    }
+
+    async createFolder(folderpath: string): Promise<Folder> {
+        const body: FolderPath = { path: folderpath };
+
+        const res = await this.client.post<Folder>("/v1/api/folder", body);
+
+        if (res.status !== StatusCodes.CREATED) {
+            throw new Error(`error while creating folder: ${res.data}`);
+        }
+
+        return res.data;
+    }
+
+    async updateFolder(folderId: number, folderpath: string): Promise<Folder> {
+        const body: FolderPath = { path: folderpath };
+
+        const res = await this.client.patch<Folder>(`/v1/api/folder/${folderId}`, body);
+
+        if (res.status !== StatusCodes.OK) {
+            throw new Error(`error while updating folder: ${res.data}`);
+        }
+
+        return res.data;
+    }
+
+    async deleteFolder(folderId: number): Promise<void> {
+        const res = await this.client.delete(`/v1/api/folder/${folderId}`);
+
+        if (res.status !== StatusCodes.NO_CONTENT) {
+            throw new Error(`error while deleting folder: ${res.data}`);
+        }
+    }
+
     async login(name: string, password: string): Promise<AuthToken> {
         const wc: WorkspaceCredentials = { name, password };
 
@@ -1,8 +1,14 @@
+import { log as rootLog } from "src/logger/logger";
+import type { Metrics } from "../metrics";
+
+const log = rootLog.child("api");
+
 enum HttpMethod {
     GET = "GET",
     POST = "POST",
     DELETE = "DELETE",
     PATCH = "PATCH",
+    PUT = "PUT",
 }
 
 type FetchResponse<T> = {
@@ -11,9 +17,12 @@ type FetchResponse<T> = {
     headers: Headers;
 };
 
+type StreamResponse = FetchResponse<ReadableStream<Uint8Array>>;
+
 export class HttpClient {
     private basePath: string;
     private defaultHeaders: Record<string, string>;
+    private metrics?: Metrics;
 
     constructor(
         scheme: "http" | "https",
@@ -27,9 +36,15 @@ export class HttpClient {
         };
     }
 
+    useMetrics(metrics: Metrics) {
+        this.metrics = metrics;
+    }
+
+    // binary responses are read as bytes whatever their content type
     private async request<T>(
         endpoint: string,
         options: RequestInit = {},
+        binary = false,
     ): Promise<FetchResponse<T>> {
         const url = new URL(endpoint, this.basePath).toString();
 
@@ -53,15 +68,26 @@ export class HttpClient {
         });
 
         const status = response.status;
+        log.debug(`${options.method ?? HttpMethod.GET} ${endpoint} ${status}`);
+
+        const body = await response.arrayBuffer();
+        this.metrics?.increment("http.bytesOut", bodyLength(options.body));
+        this.metrics?.increment("http.bytesIn", body.byteLength);
 
         let data: unknown;
         const contentType = response.headers.get("Content-Type");
-        if (response.ok && contentType?.includes("application/json")) {
-            data = await response.json();
-        } else if (response.ok && contentType?.includes("multipart/mixed")) {
-            data = await response.arrayBuffer();
+        if (response.ok && binary) {
+            data = body;
+        } else if (response.ok && contentType?.includes("application/json")) {
+            data = JSON.parse(new TextDecoder().decode(body));
+        } else if (
+            response.ok &&
+            (contentType?.includes("multipart/mixed") ||
+                contentType?.includes("application/octet-stream"))
+        ) {
+            data = body;
         } else {
-            data = await response.text();
+            data = new TextDecoder().decode(body);
         }
 
         if (!response.ok) {
@@ -71,6 +97,54 @@ export class HttpClient {
         return { data: data as T, status, headers: response.headers };
     }
 
+    /**
+     * Performs a GET request returning the body as a stream, so that large
+     * responses can be processed while they are received
+     */
+    public async stream(
+        endpoint: string,
+        headers: Record<string, string> = {},
+    ): Promise<StreamResponse> {
+        const url = new URL(endpoint, this.basePath).toString();
+
+        const response = await fetch(url, {
+            method: HttpMethod.GET,
+            headers: {
+                ...this.defaultHeaders,
+                ...headers,
+            },
+        });
+
+        const status = response.status;
+        log.debug(`${HttpMethod.GET} ${endpoint} ${status}`);
+        if (!response.ok) {
+            throw new Error(`Error: ${status} - ${await response.text()} `);
+        }
+
+        const body =
+            response.body ??
+            new ReadableStream<Uint8Array>({
+                async start(controller) {
+                    controller.enqueue(new Uint8Array(await response.arrayBuffer()));
+                    controller.close();
+                },
+            });
+
+        const metrics = this.metrics;
+        const counted = metrics
+            ? body.pipeThrough(
+                  new TransformStream<Uint8Array, Uint8Array>({
+                      transform(chunk, controller) {
+                          metrics.increment("http.bytesIn", chunk.byteLength);
+                          controller.enqueue(chunk);
+                      },
+                  }),
+              )
+            : body;
+
+        return { data: counted, status, headers: response.headers };
+    }
+
     public setAuthorizationHeader(token: string) {
         this.defaultHeaders.Authorization = `Bearer ${token}`;
     }
@@ -82,6 +156,17 @@ export class HttpClient {
         return this.request<T>(endpoint, { method: HttpMethod.GET, headers });
     }
 
+    /**
+     * Performs a GET request returning the body as bytes, e.g. a range of a
+     * file sent with the content type of the file
+     */
+    public getBinary(
+        endpoint: string,
+        headers: Record<string, string> = {},
+    ): Promise<FetchResponse<ArrayBuffer>> {
+        return this.request<ArrayBuffer>(endpoint, { method: HttpMethod.GET, headers }, true);
+    }
+
     public post<T>(
         endpoint: string,
         body: object | string,
@@ -106,6 +191,18 @@ export class HttpClient {
         });
     }
 
+    public put<T>(
+        endpoint: string,
+        body: object | string,
+        headers: Record<string, string> = {},
+    ): Promise<FetchResponse<T>> {
+        return this.request<T>(endpoint, {
+            method: HttpMethod.PUT,
+            headers,
+            body: body as BodyInit,
+        });
+    }
+
     public delete<T>(
         endpoint: string,
         headers: Record<string, string> = {},
@@ -116,3 +213,17 @@ export class HttpClient {
         });
     }
 }
+
+// size in bytes of a request body, as sent by fetch
+function bodyLength(body: BodyInit | null | undefined): number {
+    if (typeof body === "string") {
+        return new TextEncoder().encode(body).byteLength;
+    }
+    if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+        return body.byteLength;
+    }
+    if (body instanceof Blob) {
+        return body.size;
+    }
+    return 0;
+}
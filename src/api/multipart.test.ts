@@ -1,41 +1,65 @@
 import assert from "node:assert";
 import { describe, test } from "node:test";
-import { base64ToArrayBuffer } from "../utils/base64Utils";
-import { Multipart } from "./multipart";
+import { Multipart, MultipartParser, parseBoundary, parseMultipartStream } from "./multipart";
 
 describe("Multipart", () => {
     test("should create multipart", () => {
         const multipart = new Multipart()
             .createFormField("field", "foo")
-            .createFormFile("image", "image.png", base64ToArrayBuffer("ZHVtbXk="))
+            .createFormField("path", "files/file.md")
+            .createFormFile("image", "image.png", new Uint8Array([0xff, 0x00, 0x0d, 0x0a]).buffer)
             .createFormFile("file", "file.md", "content");
 
         const output = multipart.build();
         const contentType = multipart.contentType();
 
-        assert.equal(
-            output,
-            `--${multipart.boundary}\r
+        const encoder = new TextEncoder();
+        const expected = new Uint8Array([
+            ...encoder.encode(`--${multipart.boundary}\r
 Content-Disposition: form-data; name="field"\r
 \r
 foo\r
 --${multipart.boundary}\r
+Content-Disposition: form-data; name="path"\r
+\r
+files/file.md\r
+--${multipart.boundary}\r
 Content-Disposition: form-data; name="image"; filename="image.png"\r
-Content-Type: application/octet-stream\r
-Content-Transfer-Encoding: base64\r
+Content-Type: image/png\r
 \r
-ZHVtbXk=\r
+`),
+            0xff,
+            0x00,
+            0x0d,
+            0x0a,
+            ...encoder.encode(`\r
 --${multipart.boundary}\r
 Content-Disposition: form-data; name="file"; filename="file.md"\r
-Content-Type: application/octet-stream\r
+Content-Type: text/markdown\r
 \r
 content\r
---${multipart.boundary}--\r\n`,
-        );
+--${multipart.boundary}--\r\n`),
+        ]);
 
+        assert.deepEqual(output, expected);
         assert.equal(contentType, `multipart/form-data; boundary=${multipart.boundary}`);
     });
 
+    test("should parse built multipart", () => {
+        const image = new Uint8Array([0xff, 0x00, 0x0d, 0x0a, 0x2d, 0x2d]).buffer;
+        const multipart = new Multipart()
+            .createFormField("path", "files/image.png")
+            .createFormFile("file", "image.png", image);
+
+        const parser = new MultipartParser(multipart.contentType());
+        const parts = [...parser.push(multipart.build()), ...parser.end()];
+
+        assert.equal(parts.length, 2);
+        assert.equal(new TextDecoder().decode(parts[0].content), "files/image.png");
+        assert.equal(parts[1].headers["content-type"], "image/png");
+        assert.deepEqual(parts[1].content, new Uint8Array(image));
+    });
+
     test("should parse multipart", () => {
         const boundary = "random-boundary";
         const rawMultipart = `--${boundary}\r
@@ -81,3 +105,129 @@ foo\r
         ]);
     });
 });
+
+describe("MultipartParser", () => {
+    const boundary = "random-boundary";
+    const encoder = new TextEncoder();
+
+    const rawBody = (binary: Uint8Array) =>
+        new Uint8Array([
+            ...encoder.encode(`--${boundary}\r
+Content-Disposition: form-data; name="metadata"\r
+Content-Type: application/json\r
+\r
+{"id":1}\r
+--${boundary}\r
+Content-Disposition: form-data; name="text"; filename="file.md"\r
+\r
+first line\r
+\r
+--${boundary}-not-a-delimiter\r
+--${boundary}\r
+Content-Disposition: form-data; name="file"; filename="image.png"\r
+Content-Type: application/octet-stream\r
+\r
+`),
+            ...binary,
+            ...encoder.encode(`\r\n--${boundary}--\r\n`),
+        ]);
+
+    // bytes that are not valid utf-8 and that contain line breaks
+    const binary = new Uint8Array([0xff, 0x00, 0x0d, 0x0a, 0x2d, 0x2d, 0x89, 0x0d, 0x0a, 0x20]);
+
+    const assertParts = (parts: ReturnType<MultipartParser["push"]>) => {
+        const decoder = new TextDecoder();
+
+        assert.equal(parts.length, 3);
+        assert.equal(parts[0].name, "metadata");
+        assert.equal(parts[0].filename, "");
+        assert.equal(parts[0].headers["content-type"], "application/json");
+        assert.equal(decoder.decode(parts[0].content), '{"id":1}');
+
+        assert.equal(parts[1].name, "text");
+        assert.equal(parts[1].filename, "file.md");
+        assert.equal(
+            decoder.decode(parts[1].content),
+            `first line\r\n\r\n--${boundary}-not-a-delimiter`,
+        );
+
+        assert.equal(parts[2].name, "file");
+        assert.equal(parts[2].filename, "image.png");
+        assert.deepEqual(parts[2].content, binary);
+    };
+
+    test("should preserve the bytes of every part", () => {
+        const parser = new MultipartParser(`multipart/mixed; boundary=${boundary}`);
+        const parts = [...parser.push(rawBody(binary)), ...parser.end()];
+
+        assertParts(parts);
+    });
+
+    test("should parse the body pushed one byte at a time", () => {
+        const parser = new MultipartParser(`multipart/mixed; boundary=${boundary}`);
+        const body = rawBody(binary);
+
+        const parts = [];
+        for (let i = 0; i < body.length; i++) {
+            parts.push(...parser.push(body.subarray(i, i + 1)));
+        }
+        parts.push(...parser.end());
+
+        assertParts(parts);
+    });
+
+    test("should parse a stream", async () => {
+        const body = rawBody(binary);
+        const stream = new ReadableStream<Uint8Array>({
+            start(controller) {
+                for (let i = 0; i < body.length; i += 7) {
+                    controller.enqueue(body.slice(i, i + 7));
+                }
+                controller.close();
+            },
+        });
+
+        const parts = [];
+        for await (const part of parseMultipartStream(
+            `multipart/mixed; boundary="${boundary}"`,
+            stream,
+        )) {
+            parts.push(part);
+        }
+
+        assertParts(parts);
+    });
+
+    test("should decode base64 parts", () => {
+        const parser = new MultipartParser(`multipart/mixed; boundary=${boundary}`);
+        const parts = parser.push(
+            encoder.encode(`preamble\r
+--${boundary}\r
+Content-Disposition: form-data; name="file"; filename="file.bin"\r
+Content-Transfer-Encoding: base64\r
+\r
+cokd\r
+enM=\r
+--${boundary}--`),
+        );
+
+        assert.equal(parts.length, 1);
+        assert.equal(parts[0].isBase64, true);
+        assert.deepEqual(parts[0].content, new Uint8Array([0x72, 0x89, 0x1d, 0x7a, 0x73]));
+    });
+
+    test("should fail on truncated body", () => {
+        const parser = new MultipartParser(`multipart/mixed; boundary=${boundary}`);
+        parser.push(encoder.encode(`--${boundary}\r\n\r\ncontent`));
+
+        assert.throws(() => parser.end());
+    });
+
+    test("should parse quoted boundaries", () => {
+        assert.equal(parseBoundary("multipart/mixed; boundary=abc"), "abc");
+        assert.equal(parseBoundary('multipart/mixed; boundary="a b:c"'), "a b:c");
+        assert.equal(parseBoundary("multipart/form-data; boundary=abc; charset=utf-8"), "abc");
+        assert.throws(() => parseBoundary("multipart/mixed"));
+        assert.throws(() => parseBoundary("application/json; boundary=abc"));
+    });
+});
@@ -1,4 +1,5 @@
-import { arrayBufferToBase64, base64ToArrayBuffer } from "../utils/base64Utils";
+import { base64ToArrayBuffer } from "../utils/base64Utils";
+import { mimeFromFilename } from "../utils/mime";
 
 type FormField = {
     name: string;
@@ -9,7 +10,7 @@ type FormFile = {
     name: string;
     filename: string;
     value: string | ArrayBuffer;
-    isBase64?: boolean;
+    contentType?: string;
 };
 
 export class Multipart {
@@ -33,20 +34,17 @@ export class Multipart {
         return this._fields;
     }
 
-    createFormFile(fieldname: string, filename: string, value: string | ArrayBuffer): Multipart {
-        let isBase64 = false;
-        let stringValue: string;
-        if (value instanceof ArrayBuffer) {
-            stringValue = arrayBufferToBase64(value);
-            isBase64 = true;
-        } else {
-            stringValue = value;
-        }
+    createFormFile(
+        fieldname: string,
+        filename: string,
+        value: string | ArrayBuffer,
+        contentType = mimeFromFilename(filename),
+    ): Multipart {
         this._files.push({
             name: fieldname,
             filename,
-            value: stringValue,
-            isBase64,
+            value,
+            contentType,
         });
 
         return this;
@@ -60,38 +58,33 @@ export class Multipart {
         return this;
     }
 
-    build(): string {
-        let body = "";
-
-        for (let i = 0; i < this._fields.length; i++) {
-            const field = this._fields[i];
-            body += `--${this._boundary}\r\n`;
-            body += `Content-Disposition: form-data; name="${field.name}"\r\n\r\n`;
-            body += `${field.value}`;
+    /**
+     * Builds the form-data body, binary files are sent as raw bytes
+     */
+    build(): Uint8Array {
+        const encoder = new TextEncoder();
+        const chunks: Uint8Array[] = [];
+
+        for (const field of this._fields) {
+            let head = `--${this._boundary}\r\n`;
+            head += `Content-Disposition: form-data; name="${escapeQuotes(field.name)}"\r\n\r\n`;
+            chunks.push(encoder.encode(head), encoder.encode(field.value), CRLF);
         }
 
-        if (this._files.length > 0) {
-            body += "\r\n";
-        }
-
-        for (let i = 0; i < this._files.length; i++) {
-            const file = this._files[i];
-            body += `--${this._boundary}\r\n`;
-            body += `Content-Disposition: form-data; name="${file.name}"; filename="${file.filename}"\r\n`;
-            body += "Content-Type: application/octet-stream\r\n";
-            if (file.isBase64) {
-                body += "Content-Transfer-Encoding: base64\r\n";
-            }
-            body += "\r\n";
-            body += file.value;
-            if (i !== this._files.length - 1) {
-                body += "\r\n";
-            }
+        for (const file of this._files) {
+            let head = `--${this._boundary}\r\n`;
+            head += `Content-Disposition: form-data; name="${escapeQuotes(file.name)}"; filename="${escapeQuotes(file.filename)}"\r\n`;
+            head += `Content-Type: ${file.contentType ?? "application/octet-stream"}\r\n\r\n`;
+            const value =
+                typeof file.value === "string"
+                    ? encoder.encode(file.value)
+                    : new Uint8Array(file.value);
+            chunks.push(encoder.encode(head), value, CRLF);
         }
 
-        body += `\r\n--${this._boundary}--\r\n`;
+        chunks.push(encoder.encode(`--${this._boundary}--\r\n`));
 
-        return body;
+        return concatBytes(chunks);
     }
 
     contentType(): string {
@@ -111,103 +104,351 @@ export class Multipart {
     }
 
     parseParts(contentType: string, encoded: AllowSharedBufferSource): Multipart {
-        const isMultipart =
-            contentType?.startsWith("multipart/mixed") ||
-            contentType?.startsWith("multipart/form-data");
-        if (!isMultipart) {
-            throw new Error("Unexpected Content-Type, expected multipart/mixed");
-        }
-
-        const boundary = contentType.split("boundary=")[1];
-        if (!boundary) {
-            throw new Error("Boundary not found in Content-Type header");
-        }
+        const parser = new MultipartParser(contentType);
+        const bytes = ArrayBuffer.isView(encoded)
+            ? new Uint8Array(encoded.buffer, encoded.byteOffset, encoded.byteLength)
+            : new Uint8Array(encoded);
+        const parts = [...parser.push(bytes), ...parser.end()];
 
         this._files = [];
         this._fields = [];
 
         const decoder = new TextDecoder();
-        const textData = decoder.decode(encoded);
-
-        const rawParts = textData.split(`--${boundary}`);
-
-        for (let i = 0; i < rawParts.length; i++) {
-            const rawPart = rawParts[i];
-
-            if (rawPart.length === 0) {
+        for (const part of parts) {
+            // invalid part
+            if (part.name === "") {
                 continue;
             }
 
-            const components = rawPart.split("\r\n");
+            if (part.filename === "") {
+                this._fields.push({
+                    name: part.name,
+                    value: decoder.decode(part.content),
+                });
+            } else {
+                this._files.push({
+                    name: part.name,
+                    value: part.isBase64
+                        ? toArrayBuffer(part.content)
+                        : decoder.decode(part.content),
+                    filename: part.filename,
+                });
+            }
+        }
+
+        return this;
+    }
+}
 
-            const part = {
-                value: "" as string | ArrayBuffer,
-                name: "",
-                contentType: "",
-                filename: "",
-                isBase64: false,
-            };
+export type MultipartPart = {
+    name: string;
+    filename: string;
+    headers: Record<string, string>;
+    // decoded content, base64 parts are already converted to bytes
+    content: Uint8Array;
+    isBase64: boolean;
+};
 
-            let lastIndexProcessed = 0;
-            // parsing headers
-            for (let j = 0; j < components.length; j++) {
-                const component = components[j];
+enum ParserState {
+    Preamble = 0,
+    Delimiter = 1,
+    Headers = 2,
+    Body = 3,
+    Done = 4,
+}
 
-                if (component.startsWith("Content-Type:")) {
-                    part.contentType = component.substring("Content-Type:".length).trim();
-                    lastIndexProcessed = j;
-                }
+const CRLF = new Uint8Array([0x0d, 0x0a]);
+const HEADERS_END = new Uint8Array([0x0d, 0x0a, 0x0d, 0x0a]);
+
+/**
+ * Extracts the boundary from a multipart Content-Type header, removing the
+ * optional quotes around it
+ */
+export function parseBoundary(contentType: string): string {
+    const isMultipart =
+        contentType?.startsWith("multipart/mixed") ||
+        contentType?.startsWith("multipart/form-data");
+    if (!isMultipart) {
+        throw new Error("Unexpected Content-Type, expected multipart/mixed");
+    }
 
-                if (component.startsWith("Content-Disposition:")) {
-                    const nameMatch = component.match(/name="([^"]*)"/);
-                    const filenameMatch = component.match(/filename="([^"]*)"/);
+    const match = contentType.match(/;\s*boundary=(?:"([^"]+)"|([^;\s]+))/i);
+    const boundary = match?.[1] ?? match?.[2];
+    if (!boundary) {
+        throw new Error("Boundary not found in Content-Type header");
+    }
 
-                    part.name = nameMatch ? nameMatch[1].trim() : "";
-                    part.filename = filenameMatch ? filenameMatch[1].trim() : "";
-                    lastIndexProcessed = j;
-                }
+    return boundary;
+}
 
-                if (component.startsWith("Content-Transfer-Encoding:")) {
-                    part.isBase64 =
-                        component.substring("Content-Transfer-Encoding:".length).trim() ===
-                        "base64";
-                    lastIndexProcessed = j;
-                }
-            }
+/**
+ * Byte level multipart parser, the body can be pushed in chunks of any size.
+ * Parts are returned as soon as their closing delimiter is received, their
+ * content is kept byte by byte as sent by the server.
+ */
+export class MultipartParser {
+    private delimiter: Uint8Array;
+    private buffer: Uint8Array;
+    private state = ParserState.Preamble;
+    private headers: Record<string, string> = {};
+    private body: Uint8Array[] = [];
+
+    constructor(contentType: string) {
+        const boundary = parseBoundary(contentType);
+        this.delimiter = new TextEncoder().encode(`\r\n--${boundary}`);
+        // the first delimiter is not preceded by a line break
+        this.buffer = CRLF.slice();
+    }
 
-            // parsing value
-            for (let j = components.length - 1; j > lastIndexProcessed; j--) {
-                const component = components[j];
+    push(chunk: Uint8Array): MultipartPart[] {
+        if (this.state === ParserState.Done) {
+            return [];
+        }
 
-                if (component.length !== 0) {
-                    if (part.isBase64) {
-                        part.value = base64ToArrayBuffer(component.trim());
-                    } else {
-                        part.value = component.trim();
+        this.buffer = concatBytes([this.buffer, chunk]);
+
+        const parts: MultipartPart[] = [];
+        let progress = true;
+        while (progress) {
+            progress = false;
+
+            switch (this.state) {
+                case ParserState.Preamble: {
+                    const { index, pending } = this.findDelimiter();
+                    if (index === -1 || pending) {
+                        // keeping the tail that could contain a partial delimiter
+                        const safe =
+                            index === -1 ? this.buffer.length - this.delimiter.length + 1 : index;
+                        this.buffer = this.buffer.slice(Math.max(0, safe));
+                        break;
+                    }
+                    this.buffer = this.buffer.slice(index + this.delimiter.length);
+                    this.state = ParserState.Delimiter;
+                    progress = true;
+                    break;
+                }
+                case ParserState.Delimiter: {
+                    if (this.buffer.length < 2) {
+                        break;
+                    }
+                    // closing delimiter
+                    if (this.buffer[0] === 0x2d && this.buffer[1] === 0x2d) {
+                        this.buffer = new Uint8Array();
+                        this.state = ParserState.Done;
+                        break;
+                    }
+                    // skipping the transport padding until the end of the line
+                    const index = indexOfBytes(this.buffer, CRLF);
+                    if (index === -1) {
+                        break;
+                    }
+                    this.buffer = this.buffer.slice(index + CRLF.length);
+                    this.state = ParserState.Headers;
+                    progress = true;
+                    break;
+                }
+                case ParserState.Headers: {
+                    // part without headers
+                    if (startsWithBytes(this.buffer, CRLF)) {
+                        this.buffer = this.buffer.slice(CRLF.length);
+                        this.headers = {};
+                        this.state = ParserState.Body;
+                        progress = true;
+                        break;
+                    }
+                    const index = indexOfBytes(this.buffer, HEADERS_END);
+                    if (index === -1) {
+                        break;
+                    }
+                    this.headers = parseHeaders(
+                        new TextDecoder().decode(this.buffer.slice(0, index)),
+                    );
+                    this.buffer = this.buffer.slice(index + HEADERS_END.length);
+                    this.state = ParserState.Body;
+                    progress = true;
+                    break;
+                }
+                case ParserState.Body: {
+                    const { index, pending } = this.findDelimiter();
+                    if (index === -1 || pending) {
+                        // moving to the body the bytes that can't be part of a delimiter
+                        const safe =
+                            index === -1 ? this.buffer.length - this.delimiter.length + 1 : index;
+                        if (safe > 0) {
+                            this.body.push(this.buffer.slice(0, safe));
+                            this.buffer = this.buffer.slice(safe);
+                        }
+                        break;
                     }
+                    this.body.push(this.buffer.slice(0, index));
+                    this.buffer = this.buffer.slice(index + this.delimiter.length);
+                    parts.push(this.buildPart());
+                    this.state = ParserState.Delimiter;
+                    progress = true;
                     break;
                 }
             }
+        }
 
-            // invalid part
-            if (part.name === "") {
-                continue;
+        return parts;
+    }
+
+    /**
+     * Signals the end of the body, it fails if the closing delimiter is missing
+     */
+    end(): MultipartPart[] {
+        if (this.state !== ParserState.Done) {
+            throw new Error("Incomplete multipart body, closing delimiter not found");
+        }
+        return [];
+    }
+
+    /**
+     * Finds the next delimiter in the buffer. A delimiter must be followed by "--"
+     * or by the end of the line, otherwise the boundary is part of the content.
+     * It is pending when more bytes are needed to tell.
+     */
+    private findDelimiter(): { index: number; pending: boolean } {
+        let index = indexOfBytes(this.buffer, this.delimiter);
+        while (index !== -1) {
+            const end = checkDelimiterEnd(this.buffer, index + this.delimiter.length);
+            if (end === null) {
+                return { index, pending: true };
             }
+            if (end) {
+                return { index, pending: false };
+            }
+            index = indexOfBytes(this.buffer, this.delimiter, index + 1);
+        }
+        return { index: -1, pending: false };
+    }
 
-            if (part.filename === "") {
-                this.fileds.push({
-                    name: part.name,
-                    value: part.value as string,
-                });
-            } else {
-                this.files.push({
-                    name: part.name,
-                    value: part.value,
-                    filename: part.filename,
-                });
+    private buildPart(): MultipartPart {
+        const headers = this.headers;
+        const disposition = headers["content-disposition"] ?? "";
+        const nameMatch = disposition.match(/(?:^|;)\s*name="([^"]*)"/);
+        const filenameMatch = disposition.match(/filename="([^"]*)"/);
+        const isBase64 = headers["content-transfer-encoding"]?.toLowerCase() === "base64";
+
+        let content = concatBytes(this.body);
+        if (isBase64) {
+            const encoded = new TextDecoder().decode(content).replace(/\s/g, "");
+            content = new Uint8Array(base64ToArrayBuffer(encoded));
+        }
+
+        this.headers = {};
+        this.body = [];
+
+        return {
+            name: nameMatch ? nameMatch[1].trim() : "",
+            filename: filenameMatch ? filenameMatch[1].trim() : "",
+            headers,
+            content,
+            isBase64,
+        };
+    }
+}
+
+/**
+ * Parses a multipart body while it is being received
+ */
+export async function* parseMultipartStream(
+    contentType: string,
+    stream: ReadableStream<Uint8Array>,
+): AsyncGenerator<MultipartPart> {
+    const parser = new MultipartParser(contentType);
+    const reader = stream.getReader();
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+                break;
             }
+            yield* parser.push(value);
+        }
+        yield* parser.end();
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+function escapeQuotes(value: string): string {
+    return value.replace(/"/g, "%22").replace(/\r?\n/g, " ");
+}
+
+function parseHeaders(raw: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const line of raw.split("\r\n")) {
+        const separator = line.indexOf(":");
+        if (separator === -1) {
+            continue;
+        }
+        const key = line.substring(0, separator).trim().toLowerCase();
+        headers[key] = line.substring(separator + 1).trim();
+    }
+    return headers;
+}
+
+// checks the bytes after a delimiter, null if they are not enough
+function checkDelimiterEnd(bytes: Uint8Array, position: number): boolean | null {
+    if (bytes[position] === 0x2d) {
+        if (position + 1 >= bytes.length) {
+            return null;
         }
+        return bytes[position + 1] === 0x2d;
+    }
 
-        return this;
+    // transport padding
+    let i = position;
+    while (i < bytes.length && (bytes[i] === 0x20 || bytes[i] === 0x09)) {
+        i++;
     }
+    if (i + 1 >= bytes.length) {
+        return i < bytes.length && bytes[i] !== 0x0d ? false : null;
+    }
+    return bytes[i] === 0x0d && bytes[i + 1] === 0x0a;
+}
+
+function indexOfBytes(haystack: Uint8Array, needle: Uint8Array, from = 0): number {
+    const first = needle[0];
+    const last = haystack.length - needle.length;
+
+    for (
+        let i = haystack.indexOf(first, from);
+        i !== -1 && i <= last;
+        i = haystack.indexOf(first, i + 1)
+    ) {
+        let j = 1;
+        while (j < needle.length && haystack[i + j] === needle[j]) {
+            j++;
+        }
+        if (j === needle.length) {
+            return i;
+        }
+    }
+
+    return -1;
+}
+
+function startsWithBytes(bytes: Uint8Array, prefix: Uint8Array): boolean {
+    return bytes.length >= prefix.length && prefix.every((byte, i) => bytes[i] === byte);
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+    if (chunks.length === 1) {
+        return chunks[0];
+    }
+
+    const output = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        output.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return output;
+}
+
+export function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
 }
@@ -3,6 +3,7 @@ import { afterEach, beforeEach, describe, test } from "node:test";
 import getPort from "get-port";
 import WebSocket from "ws";
 import { Operation } from "../diff/diff";
+import { Metrics } from "../metrics";
 import { sleep } from "../utils/sleep";
 import { MessageType, WsClient } from "./ws";
 import type { ChunkMessage } from "./ws";
@@ -56,6 +57,33 @@ describe("WsClient with real WebSocket server", () => {
         await Promise.race([p, sleep(2_000)]);
     });
 
+    test("should count the bytes sent and received", async () => {
+        const metrics = new Metrics();
+        wsClient.useMetrics(metrics);
+        const message: ChunkMessage = {
+            fileId: 123,
+            type: MessageType.Chunk,
+            chunks: [{ type: Operation.Add, position: 0, len: 5, text: "àèìòù" }],
+            version: 1,
+        };
+        const bytes = new TextEncoder().encode(JSON.stringify(message)).byteLength;
+
+        const p = new Promise<void>((resolve) => {
+            server.on("connection", (ws) => {
+                ws.on("message", (data) => {
+                    ws.send(data.toString());
+                });
+            });
+            wsClient.onChunkMessage(async () => resolve());
+        });
+        wsClient.onOpen(() => wsClient.sendMessage(message));
+
+        await Promise.race([p, sleep(2_000)]);
+        const { counters } = metrics.snapshot();
+        assert.strictEqual(counters["ws.bytesOut"], bytes);
+        assert.strictEqual(counters["ws.bytesIn"], bytes);
+    });
+
     test("should receive a message from the WebSocket server", async () => {
         const message: ChunkMessage = {
             fileId: 123,
@@ -1,13 +1,18 @@
-import { log } from "src/logger/logger";
+import { log as rootLog } from "src/logger/logger";
 import type { DiffChunk } from "../diff/diff";
+import type { Metrics } from "../metrics";
 import { sleep } from "../utils/sleep";
 
+const log = rootLog.child("ws");
+
 export enum MessageType {
     Chunk = 0,
     Create = 1,
     Delete = 2,
     Rename = 3,
     Cursor = 4,
+    // the content of a binary file has been replaced
+    Update = 5,
 }
 
 export interface MessageHeader {
@@ -62,9 +67,11 @@ export class WsClient {
         retryIntervalMs: 250,
     };
     private retryQueue: RetryQueueItem[] = [];
+    private metrics: Metrics | null = null;
     private onOpenHandler?: () => void;
     private onCloseHandler?: () => void;
     private onErrorHandler?: (e: globalThis.Event) => void;
+    private onReconnectFailedHandler?: () => void;
     private onChunkMessageHandler: (_: ChunkMessage) => Promise<void> = async () => {};
     private onEventMessageHandler: (_: EventMessage) => Promise<void> = async () => {};
     private onCursorMessageHandler: (_: CursorMessage) => Promise<void> = async () => {};
@@ -101,6 +108,11 @@ export class WsClient {
         this.onErrorHandler = handler;
     }
 
+    // called when the client stops reconnecting, after the max attempts
+    onReconnectFailed(handler: () => void) {
+        this.onReconnectFailedHandler = handler;
+    }
+
     onChunkMessage(handler: (_: ChunkMessage) => Promise<void>) {
         this.onChunkMessageHandler = handler;
     }
@@ -113,6 +125,11 @@ export class WsClient {
         this.onCursorMessageHandler = handler;
     }
 
+    // counts the messages, the bytes and the reconnections
+    useMetrics(metrics: Metrics) {
+        this.metrics = metrics;
+    }
+
     setAuthorization(token: string) {
         this.jwtToken = token;
     }
@@ -123,7 +140,10 @@ export class WsClient {
             return;
         }
 
-        this.ws = new WebSocket(this.url());
+        // a connection closed with stopReconnect can be opened again
+        this.ignoreReconnections = false;
+        const ws = new WebSocket(this.url());
+        this.ws = ws;
 
         this.ws.onopen = () => {
             this.isConnected = true;
@@ -134,6 +154,11 @@ export class WsClient {
         };
 
         this.ws.onclose = async (event) => {
+            // the connection has been already replaced by a new one
+            if (this.ws !== null && this.ws !== ws) {
+                return;
+            }
+
             this.isConnected = false;
             this.ws = null;
             if (!event.wasClean) {
@@ -156,6 +181,11 @@ export class WsClient {
                 const msg: ChunkMessage | EventMessage | CursorMessage = JSON.parse(event.data);
 
                 log.debug("[ws] received message", msg);
+                this.metrics?.increment(`ws.in.${MessageType[msg.type] ?? msg.type}`);
+                this.metrics?.increment(
+                    "ws.bytesIn",
+                    new TextEncoder().encode(event.data).byteLength,
+                );
                 switch (msg.type) {
                     case MessageType.Chunk:
                         this.chunkMessageQueue.enqueue(msg as ChunkMessage);
@@ -163,6 +193,7 @@ export class WsClient {
                     case MessageType.Create:
                     case MessageType.Delete:
                     case MessageType.Rename:
+                    case MessageType.Update:
                         this.eventMessageQueue.enqueue(msg as EventMessage);
                         break;
                     case MessageType.Cursor:
@@ -196,9 +227,11 @@ export class WsClient {
             );
             await sleep(backoffMs);
             this.reconnectAttempts++;
+            this.metrics?.increment("ws.reconnects");
             this.connect();
         } else {
             log.error("WebSocket max reconnect attempts reached.");
+            if (this.onReconnectFailedHandler) this.onReconnectFailedHandler();
         }
     }
 
@@ -249,6 +282,7 @@ export class WsClient {
             };
 
             this.retryQueue.push(queueItem);
+            this.metrics?.increment("ws.queued");
             log.warn(
                 `WebSocket is not connected. Message queued for retry. Attempt ${queueItem.attempts}`,
             );
@@ -259,6 +293,8 @@ export class WsClient {
             const msgJson = JSON.stringify(msg);
             this.ws?.send(msgJson);
             log.debug("[ws] message sent successfully:", msg);
+            this.metrics?.increment(`ws.out.${MessageType[msg.type]}`);
+            this.metrics?.increment("ws.bytesOut", new TextEncoder().encode(msgJson).byteLength);
         } catch (error) {
             log.error("Error sending message:", error);
             throw error;
@@ -1,6 +1,6 @@
 import assert from "node:assert";
 import test, { describe } from "node:test";
-import type { FileWithContent } from "./api/api";
+import type { FileWithContent, Folder } from "./api/api";
 import { FileCache } from "./cache";
 
 describe("FileCache", () => {
@@ -97,4 +97,72 @@ describe("FileCache", () => {
             workspacePath: "newPath.md",
         });
     });
+
+    test("placeholders", () => {
+        const fc = new FileCache();
+
+        fc.setPlaceholder(testFile.id, true);
+        assert.equal(fc.isPlaceholder(testFile.id), false);
+
+        fc.create(testFile);
+        fc.setPlaceholder(testFile.id, true);
+        assert.equal(fc.isPlaceholder(testFile.id), true);
+
+        // the content is available once created again
+        fc.create({ ...testFile, content: "lorem" });
+        assert.equal(fc.isPlaceholder(testFile.id), false);
+
+        fc.setPlaceholder(testFile.id, true);
+        fc.deleteById(testFile.id);
+        assert.equal(fc.isPlaceholder(testFile.id), false);
+    });
+
+    test("folders", () => {
+        const fc = new FileCache();
+        const folder: Folder = {
+            id: 1,
+            workspacePath: "notes",
+            createdAt: "",
+            updatedAt: "",
+            workspaceId: 1,
+        };
+
+        fc.createFolder(folder);
+        // files and folders don't share the ids
+        assert.equal(fc.hasById(1), false);
+        assert.deepEqual(fc.getFolderById(1), folder);
+        assert.deepEqual(fc.getFolderByPath("notes"), folder);
+
+        fc.setFolderPath(1, "archive");
+        assert.equal(fc.hasFolderByPath("notes"), false);
+        assert.deepEqual(fc.getFolderByPath("archive"), { ...folder, workspacePath: "archive" });
+        assert.deepEqual(
+            fc.findFolders((f) => f.workspacePath.startsWith("arc")).map((f) => f.id),
+            [1],
+        );
+
+        fc.deleteFolderById(1);
+        assert.equal(fc.hasFolderByPath("archive"), false);
+        assert.deepEqual(fc.dumpFolders(), []);
+    });
+
+    test("clear", () => {
+        const fc = new FileCache();
+        fc.create(testFile);
+        fc.setPlaceholder(testFile.id, true);
+        fc.createFolder({
+            id: 1,
+            workspacePath: "notes",
+            createdAt: "",
+            updatedAt: "",
+            workspaceId: 1,
+        });
+
+        fc.clear();
+
+        assert.equal(fc.hasByPath(testFile.workspacePath), false);
+        assert.equal(fc.isPlaceholder(testFile.id), false);
+        assert.equal(fc.hasFolderByPath("notes"), false);
+        assert.deepEqual(fc.dump(), []);
+    });
 });
@@ -1,12 +1,17 @@
-import type { FileWithContent } from "./api/api";
+import type { FileWithContent, Folder } from "./api/api";
 
 export class FileCache {
     private filepathToId: Map<string, number> = new Map();
     private idToFile: Map<number, FileWithContent> = new Map();
+    // files known in remote whose content has not been downloaded yet
+    private placeholders: Set<number> = new Set();
+    private folderpathToId: Map<string, number> = new Map();
+    private idToFolder: Map<number, Folder> = new Map();
 
     create(file: FileWithContent) {
         this.filepathToId.set(file.workspacePath, file.id);
         this.idToFile.set(file.id, file);
+        this.placeholders.delete(file.id);
     }
 
     getById(id: number): FileWithContent | undefined {
@@ -80,6 +85,18 @@ export class FileCache {
         this.idToFile.set(id, file);
     }
 
+    setPlaceholder(id: number, placeholder: boolean) {
+        if (placeholder && this.idToFile.has(id)) {
+            this.placeholders.add(id);
+        } else {
+            this.placeholders.delete(id);
+        }
+    }
+
+    isPlaceholder(id: number): boolean {
+        return this.placeholders.has(id);
+    }
+
     private delete(id: number) {
         const file = this.idToFile.get(id);
         if (file !== undefined) {
@@ -87,6 +104,7 @@ export class FileCache {
         }
 
         this.idToFile.delete(id);
+        this.placeholders.delete(id);
     }
 
     deleteById(id: number) {
@@ -100,6 +118,15 @@ export class FileCache {
         }
     }
 
+    // forgets every file and folder
+    clear() {
+        this.filepathToId.clear();
+        this.idToFile.clear();
+        this.placeholders.clear();
+        this.folderpathToId.clear();
+        this.idToFolder.clear();
+    }
+
     find(predicate: (value: FileWithContent) => boolean): FileWithContent[] {
         const items: FileWithContent[] = [];
 
@@ -112,6 +139,75 @@ export class FileCache {
         return items;
     }
 
+    createFolder(folder: Folder) {
+        const previous = this.idToFolder.get(folder.id);
+        if (previous !== undefined) {
+            this.folderpathToId.delete(previous.workspacePath);
+        }
+
+        this.folderpathToId.set(folder.workspacePath, folder.id);
+        this.idToFolder.set(folder.id, folder);
+    }
+
+    getFolderById(id: number): Folder | undefined {
+        return this.idToFolder.get(id);
+    }
+
+    getFolderByPath(folderpath: string): Folder | undefined {
+        const folderId = this.folderpathToId.get(folderpath);
+        if (folderId === undefined) {
+            return undefined;
+        }
+        return this.idToFolder.get(folderId);
+    }
+
+    hasFolderByPath(folderpath: string): boolean {
+        return this.getFolderByPath(folderpath) !== undefined;
+    }
+
+    setFolderPath(id: number, newPath: string) {
+        const folder = this.idToFolder.get(id);
+        if (folder === undefined) {
+            return;
+        }
+
+        this.folderpathToId.delete(folder.workspacePath);
+
+        folder.workspacePath = newPath;
+
+        this.idToFolder.set(id, folder);
+        this.folderpathToId.set(newPath, id);
+    }
+
+    deleteFolderById(id: number) {
+        const folder = this.idToFolder.get(id);
+        if (folder !== undefined) {
+            this.folderpathToId.delete(folder.workspacePath);
+        }
+
+        this.idToFolder.delete(id);
+    }
+
+    findFolders(predicate: (value: Folder) => boolean): Folder[] {
+        const items: Folder[] = [];
+
+        for (const folder of this.idToFolder.values()) {
+            if (predicate(folder)) {
+                items.push(folder);
+            }
+        }
+
+        return items;
+    }
+
+    dumpFolders() {
+        const output = [];
+        for (const folder of this.idToFolder.values()) {
+            output.push({ ...folder });
+        }
+        return output;
+    }
+
     dump() {
         const output = [];
         for (const file of this.idToFile.values()) {
@@ -0,0 +1,269 @@
+import assert from "node:assert";
+import test, { describe } from "node:test";
+import type { ApiClient, FileWithContent } from "../api/api";
+import { type EventMessage, MessageType, type WsClient } from "../api/ws";
+import { generateSHA256Hash } from "../utils/crypto";
+import { type ConfigStorage, ConfigSync } from "./configSync";
+
+function createMemoryStorage(initial: Record<string, string>) {
+    const files = new Map<string, ArrayBuffer>();
+    for (const [path, content] of Object.entries(initial)) {
+        files.set(path, new TextEncoder().encode(content).buffer as ArrayBuffer);
+    }
+
+    const storage: ConfigStorage = {
+        async exists(path: string) {
+            return files.has(path) || [...files.keys()].some((file) => file.startsWith(`${path}/`));
+        },
+        async stat(path: string) {
+            return { type: "file", ctime: 0, mtime: 0, size: files.get(path)?.byteLength ?? 0 };
+        },
+        async list(path: string) {
+            const children = new Set<string>();
+            const result = { files: [] as string[], folders: [] as string[] };
+            for (const file of files.keys()) {
+                if (!file.startsWith(`${path}/`)) {
+                    continue;
+                }
+                const child = file.slice(path.length + 1).split("/")[0];
+                if (children.has(child)) {
+                    continue;
+                }
+                children.add(child);
+                const childPath = `${path}/${child}`;
+                if (files.has(childPath)) {
+                    result.files.push(childPath);
+                } else {
+                    result.folders.push(childPath);
+                }
+            }
+            return result;
+        },
+        async readBinary(path: string) {
+            const content = files.get(path);
+            if (!content) {
+                throw new Error(`missing ${path}`);
+            }
+            return content;
+        },
+        async writeBinary(path: string, data: ArrayBuffer) {
+            files.set(path, data);
+        },
+        async mkdir() {},
+        async remove(path: string) {
+            files.delete(path);
+        },
+    };
+
+    return { storage, files };
+}
+
+async function createRemoteFile(
+    id: number,
+    workspacePath: string,
+    content: string,
+): Promise<FileWithContent> {
+    const buffer = new TextEncoder().encode(content).buffer as ArrayBuffer;
+    return {
+        id,
+        diskPath: "",
+        workspacePath,
+        mimeType: "application/json",
+        hash: await generateSHA256Hash(buffer),
+        createdAt: new Date(0).toISOString(),
+        updatedAt: new Date(0).toISOString(),
+        workspaceId: 1,
+        version: 1,
+        content,
+    };
+}
+
+function createFakeClients(remote: FileWithContent[]) {
+    const sent: EventMessage[] = [];
+    const created: string[] = [];
+    let nextId = 100;
+
+    const apiClient = {
+        async fetchFiles() {
+            return remote;
+        },
+        async fetchFile(id: number) {
+            const file = remote.find((f) => f.id === id);
+            if (!file) {
+                throw new Error(`missing ${id}`);
+            }
+            return file;
+        },
+        async createFile(workspacePath: string, content: ArrayBuffer) {
+            created.push(workspacePath);
+            return {
+                id: nextId++,
+                workspacePath,
+                hash: await generateSHA256Hash(content),
+            };
+        },
+        async updateFileContent(id: number) {
+            return { id };
+        },
+        async deleteFile() {},
+    } as unknown as ApiClient;
+
+    const wsClient = {
+        sendMessage(msg: EventMessage) {
+            sent.push(msg);
+        },
+    } as unknown as WsClient;
+
+    return { apiClient, wsClient, sent, created };
+}
+
+describe("ConfigSync", () => {
+    const options = {
+        configDir: ".obsidian",
+        categories: ["appearance" as const, "hotkeys" as const],
+        ignore: ["/.obsidian/plugins/obsidian-live-syncinator/"],
+    };
+
+    test("should publish only files of the enabled categories", async () => {
+        const { storage } = createMemoryStorage({
+            ".obsidian/appearance.json": "{}",
+            ".obsidian/themes/dark/theme.css": "body {}",
+            ".obsidian/hotkeys.json": "{}",
+            ".obsidian/core-plugins.json": "[]",
+            ".obsidian/plugins/obsidian-live-syncinator/data.json": "{}",
+        });
+        const { apiClient, wsClient, sent, created } = createFakeClients([]);
+        const configSync = new ConfigSync(storage, apiClient, wsClient, options, () => {});
+
+        await configSync.init();
+
+        assert.deepStrictEqual(created.sort(), [
+            ".obsidian/appearance.json",
+            ".obsidian/hotkeys.json",
+            ".obsidian/themes/dark/theme.css",
+        ]);
+        assert.ok(sent.every((msg) => msg.type === MessageType.Create));
+    });
+
+    test("should apply remote files and notify the changed paths", async () => {
+        const { storage, files } = createMemoryStorage({});
+        const remote = [await createRemoteFile(1, ".obsidian/hotkeys.json", '{"a":1}')];
+        const { apiClient, wsClient } = createFakeClients(remote);
+        const changed: string[] = [];
+        const configSync = new ConfigSync(storage, apiClient, wsClient, options, (paths) =>
+            changed.push(...paths),
+        );
+
+        await configSync.init();
+
+        assert.deepStrictEqual(changed, [".obsidian/hotkeys.json"]);
+        const content = files.get(".obsidian/hotkeys.json");
+        assert.strictEqual(new TextDecoder().decode(content), '{"a":1}');
+    });
+
+    test("should ignore remote files with invalid json", async () => {
+        const { storage, files } = createMemoryStorage({});
+        const remote = [await createRemoteFile(1, ".obsidian/hotkeys.json", "{broken")];
+        const { apiClient, wsClient } = createFakeClients(remote);
+        const configSync = new ConfigSync(storage, apiClient, wsClient, options, () => {});
+
+        await configSync.handleEventMessage({
+            type: MessageType.Update,
+            fileId: 1,
+            objectType: "file",
+            workspacePath: ".obsidian/hotkeys.json",
+        });
+
+        assert.strictEqual(files.has(".obsidian/hotkeys.json"), false);
+    });
+
+    test("should publish local changes on scan", async () => {
+        const { storage, files } = createMemoryStorage({ ".obsidian/hotkeys.json": '{"a":1}' });
+        const remote = [await createRemoteFile(1, ".obsidian/hotkeys.json", '{"a":1}')];
+        const { apiClient, wsClient, sent } = createFakeClients(remote);
+        const configSync = new ConfigSync(storage, apiClient, wsClient, options, () => {});
+
+        await configSync.init();
+        assert.strictEqual(sent.length, 0);
+
+        files.set(
+            ".obsidian/hotkeys.json",
+            new TextEncoder().encode('{"a":2}').buffer as ArrayBuffer,
+        );
+        await configSync.scan();
+
+        assert.deepStrictEqual(sent, [
+            {
+                type: MessageType.Update,
+                fileId: 1,
+                objectType: "file",
+                workspacePath: ".obsidian/hotkeys.json",
+            },
+        ]);
+    });
+
+    test("should restore the config deletions not allowed by the guard", async (t) => {
+        const { storage, files } = createMemoryStorage({
+            ".obsidian/hotkeys.json": "{}",
+            ".obsidian/appearance.json": "{}",
+        });
+        const remote = [
+            await createRemoteFile(1, ".obsidian/hotkeys.json", "{}"),
+            await createRemoteFile(2, ".obsidian/appearance.json", "{}"),
+        ];
+        const { apiClient, wsClient, sent } = createFakeClients(remote);
+        const configSync = new ConfigSync(storage, apiClient, wsClient, options, () => {});
+        const guard = t.mock.fn(async (_paths: string[], _total: number) => false);
+        configSync.useDeletionGuard(guard);
+        const deleteFile = t.mock.method(apiClient, "deleteFile");
+
+        await configSync.init();
+
+        files.clear();
+        await configSync.scan();
+
+        assert.strictEqual(guard.mock.callCount(), 1);
+        assert.deepStrictEqual(guard.mock.calls[0].arguments, [
+            [".obsidian/hotkeys.json", ".obsidian/appearance.json"],
+            2,
+        ]);
+        assert.strictEqual(deleteFile.mock.callCount(), 0);
+        assert.deepStrictEqual(sent, []);
+        assert.deepStrictEqual([...files.keys()].sort(), [
+            ".obsidian/appearance.json",
+            ".obsidian/hotkeys.json",
+        ]);
+
+        // the guard allows the deletion
+        guard.mock.mockImplementation(async () => true);
+        files.delete(".obsidian/hotkeys.json");
+        await configSync.scan();
+
+        assert.strictEqual(deleteFile.mock.callCount(), 1);
+        assert.deepStrictEqual(sent, [
+            {
+                type: MessageType.Delete,
+                fileId: 1,
+                objectType: "file",
+                workspacePath: ".obsidian/hotkeys.json",
+            },
+        ]);
+    });
+
+    test("should not sync anything without categories", async () => {
+        const { storage } = createMemoryStorage({ ".obsidian/hotkeys.json": "{}" });
+        const { apiClient, wsClient, created } = createFakeClients([]);
+        const configSync = new ConfigSync(
+            storage,
+            apiClient,
+            wsClient,
+            { ...options, categories: [] },
+            () => {},
+        );
+
+        await configSync.init();
+
+        assert.deepStrictEqual(created, []);
+        assert.strictEqual(configSync.isConfigPath(".obsidian/hotkeys.json"), true);
+    });
+});
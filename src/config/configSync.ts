@@ -0,0 +1,326 @@
+import type { DataAdapter } from "obsidian";
+import { log as rootLog } from "src/logger/logger";
+import type { ApiClient, File } from "../api/api";
+import { type EventMessage, MessageType, type WsClient } from "../api/ws";
+import { generateSHA256Hash } from "../utils/crypto";
+import { SyncFilter } from "../utils/glob";
+
+const log = rootLog.child("config");
+
+export type ConfigCategory =
+    | "appearance"
+    | "hotkeys"
+    | "core-plugins"
+    | "community-plugins"
+    | "plugin-data";
+
+// paths of every category, relative to the configuration directory
+const CATEGORY_PATTERNS: Record<ConfigCategory, string[]> = {
+    appearance: ["appearance.json", "themes/", "snippets/"],
+    hotkeys: ["hotkeys.json"],
+    "core-plugins": ["core-plugins.json", "core-plugins-migration.json"],
+    "community-plugins": ["community-plugins.json"],
+    "plugin-data": ["plugins/*/data.json"],
+};
+
+export type ConfigStorage = Pick<
+    DataAdapter,
+    "exists" | "stat" | "list" | "readBinary" | "writeBinary" | "mkdir" | "remove"
+>;
+
+export interface ConfigSyncOptions {
+    // configuration directory of the vault, usually `.obsidian`
+    configDir: string;
+    categories: ConfigCategory[];
+    // paths never synced, like the folder of this plugin containing the credentials
+    ignore: string[];
+}
+
+interface ConfigFile {
+    id: number;
+    hash: string;
+}
+
+// resolves with false if the deletion of the paths, out of the total files, must not go on
+export type DeletionGuard = (paths: string[], total: number) => Promise<boolean>;
+
+/**
+ * ConfigSync keeps the configuration directory aligned with remote.
+ * Obsidian doesn't notify changes of these files, so they are scanned periodically
+ * and always sent as whole files. Remote changes are applied to disk and reported
+ * with onRemoteChange, as they take effect only after a reload.
+ */
+export class ConfigSync {
+    private storage: ConfigStorage;
+    private apiClient: ApiClient;
+    private wsClient: WsClient;
+    private options: ConfigSyncOptions;
+    private filter: SyncFilter;
+    private files: Map<string, ConfigFile> = new Map();
+    private onRemoteChange: (paths: string[]) => void;
+    private scanning: Promise<void> | null = null;
+    private deletionGuard?: DeletionGuard;
+
+    constructor(
+        storage: ConfigStorage,
+        apiClient: ApiClient,
+        wsClient: WsClient,
+        options: ConfigSyncOptions,
+        onRemoteChange: (paths: string[]) => void,
+    ) {
+        this.storage = storage;
+        this.apiClient = apiClient;
+        this.wsClient = wsClient;
+        this.options = options;
+        this.onRemoteChange = onRemoteChange;
+
+        const include = options.categories.flatMap((category) =>
+            CATEGORY_PATTERNS[category].map((pattern) => `/${options.configDir}/${pattern}`),
+        );
+        this.filter = new SyncFilter(include, options.ignore);
+    }
+
+    /**
+     * Sets the check of the local deletions, the same one of the vault files
+     */
+    useDeletionGuard(guard: DeletionGuard) {
+        this.deletionGuard = guard;
+    }
+
+    /**
+     * Returns true for every path inside the configuration directory, even if not synced
+     */
+    isConfigPath(filepath: string): boolean {
+        return filepath.startsWith(`${this.options.configDir}/`);
+    }
+
+    isSynced(filepath: string): boolean {
+        // without categories the filter would include everything
+        if (this.options.categories.length === 0) {
+            return false;
+        }
+        return this.isConfigPath(filepath) && this.filter.isSynced(filepath);
+    }
+
+    /**
+     * Aligns the local configuration with remote, the most recent version of
+     * each file is kept
+     */
+    async init() {
+        const remoteFiles = (await this.apiClient.fetchFiles()).filter((file) =>
+            this.isSynced(file.workspacePath),
+        );
+        const localPaths = await this.listLocalFiles();
+        const changed: string[] = [];
+
+        for (const file of remoteFiles) {
+            try {
+                if (!localPaths.includes(file.workspacePath)) {
+                    if (await this.applyRemote(file.id)) {
+                        changed.push(file.workspacePath);
+                    }
+                    continue;
+                }
+
+                const content = await this.storage.readBinary(file.workspacePath);
+                const hash = await generateSHA256Hash(content);
+                if (hash === file.hash) {
+                    this.files.set(file.workspacePath, { id: file.id, hash });
+                    continue;
+                }
+
+                const stat = await this.storage.stat(file.workspacePath);
+                if ((stat?.mtime ?? 0) > Date.parse(file.updatedAt)) {
+                    await this.pushUpdate(file, content, hash);
+                } else if (await this.applyRemote(file.id)) {
+                    changed.push(file.workspacePath);
+                }
+            } catch (error) {
+                log.error(`error while aligning config "${file.workspacePath}"`, error);
+            }
+        }
+
+        await this.scan();
+        this.notify(changed);
+    }
+
+    /**
+     * Publishes the local changes made since the last scan
+     */
+    async scan() {
+        if (this.scanning) {
+            return await this.scanning;
+        }
+
+        this.scanning = this.scanLocalFiles().finally(() => {
+            this.scanning = null;
+        });
+        return await this.scanning;
+    }
+
+    private async scanLocalFiles() {
+        const localPaths = await this.listLocalFiles();
+
+        for (const filepath of localPaths) {
+            try {
+                const content = await this.storage.readBinary(filepath);
+                const hash = await generateSHA256Hash(content);
+                const known = this.files.get(filepath);
+
+                if (!known) {
+                    const file = await this.apiClient.createFile(filepath, content);
+                    this.files.set(filepath, { id: file.id, hash: file.hash });
+                    this.sendEvent(MessageType.Create, file.id, filepath);
+                } else if (known.hash !== hash) {
+                    await this.pushUpdate({ id: known.id, workspacePath: filepath }, content, hash);
+                }
+            } catch (error) {
+                log.error(`error while publishing config "${filepath}"`, error);
+            }
+        }
+
+        const deleted = [...this.files].filter(([filepath]) => !localPaths.includes(filepath));
+        if (
+            deleted.length > 0 &&
+            this.deletionGuard &&
+            !(await this.deletionGuard(
+                deleted.map(([filepath]) => filepath),
+                this.files.size,
+            ))
+        ) {
+            log.warn(`deletion of ${deleted.length} config files not confirmed, restoring them`);
+            for (const [filepath, known] of deleted) {
+                try {
+                    // forgotten first, otherwise the remote version is considered applied
+                    this.files.delete(filepath);
+                    await this.applyRemote(known.id);
+                } catch (error) {
+                    log.error(`error while restoring config "${filepath}"`, error);
+                }
+            }
+            return;
+        }
+
+        for (const [filepath, known] of deleted) {
+            try {
+                await this.apiClient.deleteFile(known.id);
+                this.files.delete(filepath);
+                this.sendEvent(MessageType.Delete, known.id, filepath);
+            } catch (error) {
+                log.error(`error while deleting config "${filepath}"`, error);
+            }
+        }
+    }
+
+    async handleEventMessage(event: EventMessage) {
+        if (!this.isSynced(event.workspacePath) || event.objectType !== "file") {
+            log.debug(`[config] ignoring event on "${event.workspacePath}"`);
+            return;
+        }
+
+        switch (event.type) {
+            case MessageType.Create:
+            case MessageType.Update:
+                if (await this.applyRemote(event.fileId)) {
+                    this.notify([event.workspacePath]);
+                }
+                break;
+            case MessageType.Delete:
+                if (await this.storage.exists(event.workspacePath)) {
+                    await this.storage.remove(event.workspacePath);
+                }
+                this.files.delete(event.workspacePath);
+                this.notify([event.workspacePath]);
+                break;
+            default:
+                log.warn(`[config] unsupported event ${event.type} on "${event.workspacePath}"`);
+        }
+    }
+
+    private async pushUpdate(
+        file: Pick<File, "id" | "workspacePath">,
+        content: ArrayBuffer,
+        hash: string,
+    ) {
+        const updated = await this.apiClient.updateFileContent(
+            file.id,
+            file.workspacePath,
+            content,
+        );
+        this.files.set(file.workspacePath, { id: file.id, hash });
+        this.sendEvent(MessageType.Update, updated.id, file.workspacePath);
+    }
+
+    // writes the remote version of the file, it returns false if nothing changed
+    private async applyRemote(fileId: number): Promise<boolean> {
+        const file = await this.apiClient.fetchFile(fileId);
+        if (this.files.get(file.workspacePath)?.hash === file.hash) {
+            return false;
+        }
+
+        const content =
+            typeof file.content === "string"
+                ? (new TextEncoder().encode(file.content).buffer as ArrayBuffer)
+                : file.content;
+
+        // a broken configuration could prevent obsidian from starting
+        if (file.workspacePath.endsWith(".json")) {
+            try {
+                JSON.parse(new TextDecoder().decode(content));
+            } catch {
+                log.warn(`[config] ignoring invalid json "${file.workspacePath}"`);
+                return false;
+            }
+        }
+
+        await this.ensureFolder(file.workspacePath);
+        await this.storage.writeBinary(file.workspacePath, content);
+        this.files.set(file.workspacePath, { id: file.id, hash: file.hash });
+        log.info(`[config] applied remote "${file.workspacePath}"`);
+        return true;
+    }
+
+    private async ensureFolder(filepath: string) {
+        const parts = filepath.split("/").slice(0, -1);
+        for (let i = 1; i <= parts.length; i++) {
+            const folder = parts.slice(0, i).join("/");
+            if (!(await this.storage.exists(folder))) {
+                await this.storage.mkdir(folder);
+            }
+        }
+    }
+
+    private async listLocalFiles(): Promise<string[]> {
+        const files: string[] = [];
+        const folders = [this.options.configDir];
+
+        while (folders.length > 0) {
+            const folder = folders.pop() as string;
+            if (!(await this.storage.exists(folder))) {
+                continue;
+            }
+
+            const listed = await this.storage.list(folder);
+            files.push(...listed.files.filter((file) => this.isSynced(file)));
+            folders.push(...listed.folders.filter((f) => this.filter.isFolderSynced(f)));
+        }
+
+        return files;
+    }
+
+    private sendEvent(type: MessageType, fileId: number, workspacePath: string) {
+        const msg: EventMessage = {
+            type,
+            fileId,
+            objectType: "file",
+            workspacePath,
+        };
+        this.wsClient.sendMessage(msg);
+    }
+
+    private notify(paths: string[]) {
+        if (paths.length > 0) {
+            this.onRemoteChange(paths);
+        }
+    }
+}
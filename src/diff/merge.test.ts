@@ -0,0 +1,105 @@
+import assert from "node:assert";
+import { describe, test } from "node:test";
+import { joinMergeChunks, merge2, merge3, splitLines } from "./merge";
+
+describe("splitLines", () => {
+    test("should keep line terminators", () => {
+        assert.deepEqual(splitLines(""), []);
+        assert.deepEqual(splitLines("a"), ["a"]);
+        assert.deepEqual(splitLines("a\nb\n"), ["a\n", "b\n"]);
+        assert.deepEqual(splitLines("a\n\nb"), ["a\n", "\n", "b"]);
+    });
+});
+
+describe("merge3", () => {
+    const testCases = [
+        {
+            name: "no changes",
+            base: "a\nb\nc\n",
+            local: "a\nb\nc\n",
+            remote: "a\nb\nc\n",
+            expected: "a\nb\nc\n",
+        },
+        {
+            name: "only local changes",
+            base: "a\nb\nc\n",
+            local: "a\nB\nc\n",
+            remote: "a\nb\nc\n",
+            expected: "a\nB\nc\n",
+        },
+        {
+            name: "only remote changes",
+            base: "a\nb\nc\n",
+            local: "a\nb\nc\n",
+            remote: "a\nb\nc\nd\n",
+            expected: "a\nb\nc\nd\n",
+        },
+        {
+            name: "disjoint changes",
+            base: "a\nb\nc\nd\ne\n",
+            local: "A\nb\nc\nd\ne\n",
+            remote: "a\nb\nc\nd\nE\n",
+            expected: "A\nb\nc\nd\nE\n",
+        },
+        {
+            name: "same change on both sides",
+            base: "a\nb\nc\n",
+            local: "a\nB\nc\n",
+            remote: "a\nB\nc\n",
+            expected: "a\nB\nc\n",
+        },
+        {
+            name: "deletion and disjoint insertion",
+            base: "a\nb\nc\nd\n",
+            local: "b\nc\nd\n",
+            remote: "a\nb\nc\nd\ne\n",
+            expected: "b\nc\nd\ne\n",
+        },
+    ];
+
+    for (const tt of testCases) {
+        test(tt.name, () => {
+            const result = merge3(tt.base, tt.local, tt.remote);
+            assert.equal(result.conflicts, 0);
+            assert.equal(joinMergeChunks(result.chunks, "local"), tt.expected);
+            assert.equal(joinMergeChunks(result.chunks, "remote"), tt.expected);
+        });
+    }
+
+    test("should report overlapping changes as conflict", () => {
+        const result = merge3("a\nb\nc\n", "a\nlocal\nc\n", "a\nremote\nc\n");
+
+        assert.equal(result.conflicts, 1);
+        assert.deepEqual(result.chunks, [
+            { type: "stable", lines: ["a\n"] },
+            { type: "conflict", base: ["b\n"], local: ["local\n"], remote: ["remote\n"] },
+            { type: "stable", lines: ["c\n"] },
+        ]);
+        assert.equal(joinMergeChunks(result.chunks, "local"), "a\nlocal\nc\n");
+        assert.equal(joinMergeChunks(result.chunks, "remote"), "a\nremote\nc\n");
+    });
+
+    test("should report insertions at the same position as conflict", () => {
+        const result = merge3("a\n", "a\nlocal\n", "a\nremote\n");
+
+        assert.equal(result.conflicts, 1);
+        assert.deepEqual(result.chunks, [
+            { type: "stable", lines: ["a\n"] },
+            { type: "conflict", base: [], local: ["local\n"], remote: ["remote\n"] },
+        ]);
+    });
+});
+
+describe("merge2", () => {
+    test("should report every difference as conflict", () => {
+        const result = merge2("a\nlocal\nc\nd\n", "a\nremote\nc\n");
+
+        assert.equal(result.conflicts, 2);
+        assert.deepEqual(result.chunks, [
+            { type: "stable", lines: ["a\n"] },
+            { type: "conflict", base: [], local: ["local\n"], remote: ["remote\n"] },
+            { type: "stable", lines: ["c\n"] },
+            { type: "conflict", base: [], local: ["d\n"], remote: [] },
+        ]);
+    });
+});
@@ -0,0 +1,221 @@
+import { diffArrays } from "diff";
+
+export type MergeChunk =
+    | { type: "stable"; lines: string[] }
+    | { type: "conflict"; base: string[]; local: string[]; remote: string[] };
+
+export type MergeResult = {
+    chunks: MergeChunk[];
+    conflicts: number;
+};
+
+// replacement of the base lines in [start, end) with lines
+type Hunk = {
+    start: number;
+    end: number;
+    lines: string[];
+};
+
+// splitLines splits the text in lines keeping the line terminators,
+// so that joining the lines gives back the original text
+export function splitLines(text: string): string[] {
+    if (text === "") {
+        return [];
+    }
+    return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function computeHunks(base: string[], side: string[]): Hunk[] {
+    const hunks: Hunk[] = [];
+    let position = 0;
+    let current: Hunk | null = null;
+
+    for (const change of diffArrays(base, side)) {
+        if (!change.added && !change.removed) {
+            if (current) {
+                hunks.push(current);
+                current = null;
+            }
+            position += change.value.length;
+            continue;
+        }
+
+        if (!current) {
+            current = { start: position, end: position, lines: [] };
+        }
+
+        if (change.removed) {
+            position += change.value.length;
+            current.end = position;
+        } else {
+            current.lines.push(...change.value);
+        }
+    }
+
+    if (current) {
+        hunks.push(current);
+    }
+
+    return hunks;
+}
+
+// applies the side hunks to the base lines in [start, end)
+function applyHunks(base: string[], hunks: Hunk[], start: number, end: number): string[] {
+    const lines: string[] = [];
+    let position = start;
+
+    for (const hunk of hunks) {
+        lines.push(...base.slice(position, hunk.start), ...hunk.lines);
+        position = hunk.end;
+    }
+    lines.push(...base.slice(position, end));
+
+    return lines;
+}
+
+function overlaps(region: { start: number; end: number }, hunk: Hunk): boolean {
+    // insertions at the same position are considered overlapping
+    if (hunk.start === region.start || hunk.end === region.end) {
+        return true;
+    }
+    return hunk.start < region.end && hunk.end > region.start;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Line based three-way merge of local and remote against their common base.
+ * Changes made in different regions of the base are merged automatically,
+ * overlapping changes are reported as conflicts.
+ */
+export function merge3(base: string, local: string, remote: string): MergeResult {
+    const baseLines = splitLines(base);
+    const localHunks = computeHunks(baseLines, splitLines(local));
+    const remoteHunks = computeHunks(baseLines, splitLines(remote));
+
+    const chunks: MergeChunk[] = [];
+    let conflicts = 0;
+    let position = 0;
+    let i = 0;
+    let j = 0;
+
+    const pushStable = (lines: string[]) => {
+        if (lines.length === 0) {
+            return;
+        }
+        const last = chunks[chunks.length - 1];
+        if (last?.type === "stable") {
+            last.lines.push(...lines);
+        } else {
+            chunks.push({ type: "stable", lines: [...lines] });
+        }
+    };
+
+    while (i < localHunks.length || j < remoteHunks.length) {
+        const first =
+            j >= remoteHunks.length ||
+            (i < localHunks.length && localHunks[i].start <= remoteHunks[j].start)
+                ? localHunks[i]
+                : remoteHunks[j];
+
+        // grows the region until no hunk of the other side overlaps it
+        const region = { start: first.start, end: first.end };
+        const regionLocal: Hunk[] = [];
+        const regionRemote: Hunk[] = [];
+        let changed = true;
+        while (changed) {
+            changed = false;
+            while (i < localHunks.length && overlaps(region, localHunks[i])) {
+                region.end = Math.max(region.end, localHunks[i].end);
+                regionLocal.push(localHunks[i++]);
+                changed = true;
+            }
+            while (j < remoteHunks.length && overlaps(region, remoteHunks[j])) {
+                region.end = Math.max(region.end, remoteHunks[j].end);
+                regionRemote.push(remoteHunks[j++]);
+                changed = true;
+            }
+        }
+
+        pushStable(baseLines.slice(position, region.start));
+        position = region.end;
+
+        const localLines = applyHunks(baseLines, regionLocal, region.start, region.end);
+        const remoteLines = applyHunks(baseLines, regionRemote, region.start, region.end);
+
+        if (regionRemote.length === 0 || sameLines(localLines, remoteLines)) {
+            pushStable(localLines);
+        } else if (regionLocal.length === 0) {
+            pushStable(remoteLines);
+        } else {
+            conflicts++;
+            chunks.push({
+                type: "conflict",
+                base: baseLines.slice(region.start, region.end),
+                local: localLines,
+                remote: remoteLines,
+            });
+        }
+    }
+
+    pushStable(baseLines.slice(position));
+
+    return { chunks, conflicts };
+}
+
+/**
+ * Joins the merge chunks, conflicts are resolved picking the given side
+ */
+export function joinMergeChunks(chunks: MergeChunk[], side: "local" | "remote"): string {
+    let content = "";
+    for (const chunk of chunks) {
+        if (chunk.type === "stable") {
+            content += chunk.lines.join("");
+        } else {
+            content += chunk[side].join("");
+        }
+    }
+    return content;
+}
+
+/**
+ * Line based two-way merge, used when the common base is unknown.
+ * Every difference between local and remote is reported as conflict.
+ */
+export function merge2(local: string, remote: string): MergeResult {
+    const chunks: MergeChunk[] = [];
+    let conflicts = 0;
+    let current: MergeChunk | null = null;
+
+    for (const change of diffArrays(splitLines(local), splitLines(remote))) {
+        if (!change.added && !change.removed) {
+            if (current) {
+                chunks.push(current);
+                current = null;
+            }
+            chunks.push({ type: "stable", lines: [...change.value] });
+            continue;
+        }
+
+        if (!current) {
+            conflicts++;
+            current = { type: "conflict", base: [], local: [], remote: [] };
+        }
+
+        if (current.type === "conflict") {
+            if (change.removed) {
+                current.local.push(...change.value);
+            } else {
+                current.remote.push(...change.value);
+            }
+        }
+    }
+
+    if (current) {
+        chunks.push(current);
+    }
+
+    return { chunks, conflicts };
+}
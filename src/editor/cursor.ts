@@ -1,7 +1,9 @@
 import type { Editor, MarkdownView } from "obsidian";
-import { log } from "src/logger/logger";
+import { log as rootLog } from "src/logger/logger";
 import type { CursorEventMap, EventBus } from "src/utils/eventBus";
 
+const log = rootLog.child("cursor");
+
 export class CursorEnv {
     private cursors = new Map<string, UserCursor>();
     private cursorTimers = new Map<string, number>();
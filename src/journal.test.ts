@@ -0,0 +1,136 @@
+import assert from "node:assert";
+import test, { describe } from "node:test";
+import { MessageType } from "./api/ws";
+import { Operation } from "./diff/diff";
+import { Journal, type JournalEntry } from "./journal";
+import type { DocumentStore } from "./storage/documents";
+
+function createMemoryStore(
+    initial: Record<string, string> = {},
+): DocumentStore & { documents: Map<string, string>; saves: string[] } {
+    const documents = new Map(Object.entries(initial));
+    const saves: string[] = [];
+
+    return {
+        documents,
+        saves,
+        async load(key: string) {
+            return documents.get(key) ?? null;
+        },
+        async save(key: string, data: string) {
+            saves.push(key);
+            documents.set(key, data);
+        },
+        async remove(key: string) {
+            documents.delete(key);
+        },
+    };
+}
+
+describe("Journal", () => {
+    const testEntry: JournalEntry = {
+        fileId: 1,
+        workspacePath: "foo.md",
+        version: 2,
+        base: "lorem",
+        pending: [
+            {
+                type: MessageType.Chunk,
+                fileId: 1,
+                version: 2,
+                chunks: [{ type: Operation.Add, position: 5, len: 6, text: " ipsum" }],
+            },
+        ],
+    };
+
+    test("basic operations", () => {
+        const journal = new Journal();
+
+        journal.set(testEntry);
+
+        assert.deepEqual(journal.get(1), testEntry);
+        assert.deepEqual(journal.get(2), undefined);
+
+        journal.delete(1);
+        assert.deepEqual(journal.dump(), []);
+    });
+
+    test("should persist and reload entries", async () => {
+        const store = createMemoryStore();
+        const journal = new Journal(store);
+
+        journal.set(testEntry);
+        journal.set({ ...testEntry, fileId: 2, workspacePath: "bar.md", pending: [] });
+        journal.delete(2);
+        await journal.flush();
+
+        const reloaded = new Journal(store);
+        await reloaded.load();
+
+        assert.deepEqual(reloaded.dump(), [testEntry]);
+    });
+
+    test("should persist and reload uploads", async () => {
+        const store = createMemoryStore();
+        const journal = new Journal(store);
+        const upload = { id: "abc", workspacePath: "foo.pdf", size: 10, hash: "123", offset: 4 };
+
+        journal.setUpload(upload);
+        journal.setUpload({ ...upload, id: "def", workspacePath: "bar.pdf" });
+        journal.deleteUpload("bar.pdf");
+        await journal.flush();
+
+        const reloaded = new Journal(store);
+        await reloaded.load();
+
+        assert.deepEqual(reloaded.getUpload("foo.pdf"), upload);
+        assert.deepEqual(reloaded.dumpUploads(), [upload]);
+    });
+
+    test("should persist and reload tombstones", async () => {
+        const store = createMemoryStore();
+        const journal = new Journal(store);
+        const tombstone = {
+            fileId: 1,
+            workspacePath: "foo.md",
+            version: 3,
+            deletedAt: "2024-01-01T00:00:00.000Z",
+        };
+
+        journal.setTombstone(tombstone);
+        journal.setTombstone({ ...tombstone, fileId: 2, workspacePath: "bar.md" });
+        journal.deleteTombstone(2);
+        await journal.flush();
+
+        const reloaded = new Journal(store);
+        await reloaded.load();
+
+        assert.deepEqual(reloaded.getTombstone(1), tombstone);
+        assert.deepEqual(reloaded.dumpTombstones(), [tombstone]);
+    });
+
+    test("should ignore invalid journal", async () => {
+        const journal = new Journal(createMemoryStore({ index: "{invalid" }));
+        await journal.load();
+
+        assert.deepEqual(journal.dump(), []);
+    });
+
+    test("should rewrite only the changed entries", async () => {
+        const store = createMemoryStore();
+        const journal = new Journal(store);
+
+        journal.set(testEntry);
+        journal.set({ ...testEntry, fileId: 2, workspacePath: "bar.md", pending: [] });
+        await journal.flush();
+        store.saves.length = 0;
+
+        journal.set({ ...testEntry, version: 3 });
+        journal.set({ ...testEntry, version: 4 });
+        journal.delete(2);
+        await journal.flush();
+
+        assert.deepEqual(store.saves, ["1", "index"]);
+        assert.deepEqual([...store.documents.keys()].sort(), ["1", "index"]);
+    });
+});
@@ -0,0 +1,197 @@
+import { log as rootLog } from "src/logger/logger";
+import type { UploadSession } from "./api/api";
+import type { ChunkMessage } from "./api/ws";
+import { type DocumentStore, DocumentWriter } from "./storage/documents";
+
+const log = rootLog.child("sync");
+
+export interface JournalEntry {
+    fileId: number;
+    workspacePath: string;
+    version: number;
+    // last content acknowledged by the server, null for binary files
+    base: string | null;
+    // chunks sent to the server and not yet acknowledged
+    pending: ChunkMessage[];
+    // files known in remote never downloaded, they are missing locally on purpose
+    placeholder?: boolean;
+}
+
+// a file deleted locally whose deletion has not reached the server yet
+export interface Tombstone {
+    fileId: number;
+    workspacePath: string;
+    // last synced version, a newer remote version restores the file
+    version: number;
+    deletedAt: string;
+}
+
+interface JournalIndex {
+    version: number;
+    // ids of the files whose entry is stored apart, as a document each
+    files: number[];
+    // resumable uploads not completed yet
+    uploads?: UploadSession[];
+    tombstones?: Tombstone[];
+}
+
+const JOURNAL_FORMAT_VERSION = 2;
+const INDEX_KEY = "index";
+
+/**
+ * Journal keeps on disk the last synced state of every file, so that
+ * offline edits can be rebased on startup instead of being treated as conflicts.
+ * Every entry is stored as a document of its own, a change of a file rewrites
+ * only its entry. Without a store it behaves as an in-memory journal.
+ */
+export class Journal {
+    private store: DocumentStore | null;
+    private writer: DocumentWriter | null;
+    private entries: Map<number, JournalEntry> = new Map();
+    private uploads: Map<string, UploadSession> = new Map();
+    private tombstones: Map<number, Tombstone> = new Map();
+
+    constructor(store: DocumentStore | null = null, saveDelayMs?: number) {
+        this.store = store;
+        this.writer = store
+            ? new DocumentWriter(store, this.serialize.bind(this), saveDelayMs)
+            : null;
+    }
+
+    async load(): Promise<void> {
+        const store = this.store;
+        if (!store) {
+            return;
+        }
+        this.entries.clear();
+        this.uploads.clear();
+        this.tombstones.clear();
+
+        try {
+            const raw = await store.load(INDEX_KEY);
+            if (!raw) {
+                return;
+            }
+
+            const index: JournalIndex = JSON.parse(raw);
+            if (index.version !== JOURNAL_FORMAT_VERSION) {
+                log.warn(`ignoring journal with unsupported version ${index.version}`);
+                return;
+            }
+
+            const entries = await Promise.all(
+                index.files.map(async (fileId) => await store.load(fileId.toString())),
+            );
+            for (const data of entries) {
+                if (data) {
+                    const entry: JournalEntry = JSON.parse(data);
+                    this.entries.set(entry.fileId, entry);
+                }
+            }
+            for (const upload of index.uploads ?? []) {
+                this.uploads.set(upload.workspacePath, upload);
+            }
+            for (const tombstone of index.tombstones ?? []) {
+                this.tombstones.set(tombstone.fileId, tombstone);
+            }
+        } catch (error) {
+            log.error("error while loading journal", error);
+        }
+    }
+
+    get(fileId: number): JournalEntry | undefined {
+        return this.entries.get(fileId);
+    }
+
+    set(entry: JournalEntry) {
+        if (!this.entries.has(entry.fileId)) {
+            this.writer?.markDirty(INDEX_KEY);
+        }
+        this.entries.set(entry.fileId, {
+            ...entry,
+            pending: entry.pending.map((msg) => ({ ...msg })),
+        });
+        this.writer?.markDirty(entry.fileId.toString());
+    }
+
+    delete(fileId: number) {
+        if (this.entries.delete(fileId)) {
+            this.writer?.markDirty(INDEX_KEY);
+            this.writer?.markDirty(fileId.toString());
+        }
+    }
+
+    clear() {
+        for (const fileId of this.entries.keys()) {
+            this.writer?.markDirty(fileId.toString());
+        }
+        this.entries.clear();
+        this.uploads.clear();
+        this.tombstones.clear();
+        this.writer?.markDirty(INDEX_KEY);
+    }
+
+    dump(): JournalEntry[] {
+        return [...this.entries.values()].map((entry) => ({ ...entry }));
+    }
+
+    getUpload(workspacePath: string): UploadSession | undefined {
+        return this.uploads.get(workspacePath);
+    }
+
+    setUpload(upload: UploadSession) {
+        this.uploads.set(upload.workspacePath, { ...upload });
+        this.writer?.markDirty(INDEX_KEY);
+    }
+
+    deleteUpload(workspacePath: string) {
+        if (this.uploads.delete(workspacePath)) {
+            this.writer?.markDirty(INDEX_KEY);
+        }
+    }
+
+    dumpUploads(): UploadSession[] {
+        return [...this.uploads.values()].map((upload) => ({ ...upload }));
+    }
+
+    getTombstone(fileId: number): Tombstone | undefined {
+        return this.tombstones.get(fileId);
+    }
+
+    setTombstone(tombstone: Tombstone) {
+        this.tombstones.set(tombstone.fileId, { ...tombstone });
+        this.writer?.markDirty(INDEX_KEY);
+    }
+
+    deleteTombstone(fileId: number) {
+        if (this.tombstones.delete(fileId)) {
+            this.writer?.markDirty(INDEX_KEY);
+        }
+    }
+
+    dumpTombstones(): Tombstone[] {
+        return [...this.tombstones.values()].map((tombstone) => ({ ...tombstone }));
+    }
+
+    /**
+     * Waits until every scheduled change is written to the store
+     */
+    async flush(): Promise<void> {
+        await this.writer?.flush();
+    }
+
+    private serialize(key: string): string | null {
+        if (key === INDEX_KEY) {
+            const index: JournalIndex = {
+                version: JOURNAL_FORMAT_VERSION,
+                files: [...this.entries.keys()],
+                uploads: [...this.uploads.values()],
+                tombstones: [...this.tombstones.values()],
+            };
+            return JSON.stringify(index);
+        }
+
+        const entry = this.entries.get(Number(key));
+        return entry ? JSON.stringify(entry) : null;
+    }
+}
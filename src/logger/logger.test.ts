@@ -0,0 +1,155 @@
+import assert from "node:assert";
+import test, { afterEach, describe } from "node:test";
+import {
+    FileSink,
+    type LogFileStorage,
+    LogLevel,
+    type LogRecord,
+    type LogSink,
+    RingBufferSink,
+    formatRecord,
+    log,
+    redact,
+} from "./logger";
+
+function createMemoryStorage(): LogFileStorage & { files: Map<string, string> } {
+    const files = new Map<string, string>();
+
+    return {
+        files,
+        async exists(path: string) {
+            return files.has(path);
+        },
+        async stat(path: string) {
+            const content = files.get(path);
+            return content === undefined
+                ? null
+                : {
+                      type: "file",
+                      ctime: 0,
+                      mtime: 0,
+                      size: new TextEncoder().encode(content).byteLength,
+                  };
+        },
+        async append(path: string, data: string) {
+            files.set(path, (files.get(path) ?? "") + data);
+        },
+        async rename(path: string, newPath: string) {
+            files.set(newPath, files.get(path) ?? "");
+            files.delete(path);
+        },
+        async remove(path: string) {
+            files.delete(path);
+        },
+    };
+}
+
+function createRecord(message: string): LogRecord {
+    return {
+        timestamp: new Date(0).toISOString(),
+        level: LogLevel.INFO,
+        module: "sync",
+        message,
+        params: [],
+    };
+}
+
+describe("Logger", () => {
+    afterEach(() => {
+        log.setGlobalLevel(LogLevel.SILENT);
+        log.setModuleLevel("ws", undefined);
+    });
+
+    test("should filter the records by module level", (t) => {
+        const records: LogRecord[] = [];
+        const sink: LogSink = { write: (record) => records.push(record) };
+        const removeSink = log.addSink(sink);
+        t.after(removeSink);
+        t.mock.method(console, "debug", () => {});
+        t.mock.method(console, "warn", () => {});
+
+        log.setGlobalLevel(LogLevel.WARN);
+        log.setModuleLevel("ws", LogLevel.DEBUG);
+
+        log.child("ws").debug("connected");
+        log.child("sync").debug("hidden");
+        log.child("sync").warn("shown");
+
+        assert.deepEqual(
+            records.map((record) => [record.module, record.message]),
+            [
+                ["ws", "connected"],
+                ["sync", "shown"],
+            ],
+        );
+
+        removeSink();
+        log.warn("not recorded");
+        assert.equal(records.length, 2);
+    });
+
+    test("should keep only the recent records", () => {
+        const buffer = new RingBufferSink(2);
+
+        for (const message of ["first", "second", "third"]) {
+            buffer.write(createRecord(message));
+        }
+
+        assert.deepEqual(buffer.recent(), [
+            "1970-01-01T00:00:00.000Z INFO [sync] second",
+            "1970-01-01T00:00:00.000Z INFO [sync] third",
+        ]);
+    });
+
+    test("should format the params", () => {
+        const line = formatRecord({
+            ...createRecord("fetched"),
+            params: [{ id: 1 }, new Error("boom")],
+        });
+
+        assert.ok(
+            line.startsWith('1970-01-01T00:00:00.000Z INFO [sync] fetched {"id":1} Error: boom'),
+        );
+    });
+
+    test("should rotate the log file", async () => {
+        const storage = createMemoryStorage();
+        const sink = new FileSink(storage, "syncinator.log", 100, 2);
+
+        sink.write(createRecord("a".repeat(60)));
+        await sink.flush();
+        sink.write(createRecord("b".repeat(60)));
+        await sink.flush();
+        sink.write(createRecord("c".repeat(60)));
+        await sink.flush();
+
+        assert.deepEqual([...storage.files.keys()].sort(), ["syncinator.log", "syncinator.log.1"]);
+        assert.ok(storage.files.get("syncinator.log")?.includes("c".repeat(60)));
+        assert.ok(storage.files.get("syncinator.log.1")?.includes("b".repeat(60)));
+    });
+
+    test("should rotate the log file by its size in bytes", async () => {
+        const storage = createMemoryStorage();
+        const sink = new FileSink(storage, "syncinator.log", 150, 2);
+
+        // two lines fit the max size in characters, not in bytes
+        sink.write(createRecord("é".repeat(30)));
+        await sink.flush();
+        sink.write(createRecord("è".repeat(30)));
+        await sink.flush();
+
+        assert.deepEqual([...storage.files.keys()].sort(), ["syncinator.log", "syncinator.log.1"]);
+        assert.ok(storage.files.get("syncinator.log")?.includes("è".repeat(30)));
+        assert.ok(storage.files.get("syncinator.log.1")?.includes("é".repeat(30)));
+    });
+
+    test("should redact the secrets", () => {
+        const text =
+            "login pass=hunter2 ws://host/v1/sync?jwt=eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.sig Authorization: Bearer abc";
+
+        assert.equal(
+            redact(text, ["hunter2", ""]),
+            "login pass=[REDACTED] ws://host/v1/sync?jwt=[REDACTED] Authorization: Bearer [REDACTED]",
+        );
+    });
+});
@@ -1,3 +1,5 @@
+import type { DataAdapter } from "obsidian";
+
 export const LogLevel = {
     SILENT: 0,
     DEBUG: 1,
@@ -8,36 +10,287 @@ export const LogLevel = {
 
 export type LogLevelType = (typeof LogLevel)[keyof typeof LogLevel];
 
+// the named child loggers, their level can be set apart from the global one
+export const LOG_MODULES = ["ws", "api", "sync", "cursor", "storage", "config"] as const;
+
+export type LogModule = (typeof LOG_MODULES)[number];
+
+export interface LogRecord {
+    timestamp: string;
+    level: LogLevelType;
+    // empty for the root logger
+    module: string;
+    message: unknown;
+    params: unknown[];
+}
+
+export interface LogSink {
+    write(record: LogRecord): void;
+}
+
+const LEVEL_NAMES: Record<LogLevelType, string> = {
+    [LogLevel.SILENT]: "SILENT",
+    [LogLevel.DEBUG]: "DEBUG",
+    [LogLevel.INFO]: "INFO",
+    [LogLevel.WARN]: "WARN",
+    [LogLevel.ERROR]: "ERROR",
+};
+
+// formatted records longer than this are truncated, large debug dumps included
+const MAX_LINE_LENGTH = 4000;
+
 let globalLogLevel: LogLevelType = LogLevel.SILENT;
+const moduleLogLevels: Map<string, LogLevelType> = new Map();
 const logPrefix = "[syncinator]";
 
+/**
+ * Writes the records to the developer console, as the logger always did
+ */
+export class ConsoleSink implements LogSink {
+    write(record: LogRecord) {
+        const prefix = record.module ? `[syncinator:${record.module}]` : logPrefix;
+        switch (record.level) {
+            case LogLevel.DEBUG:
+                console.debug(prefix, record.message, ...record.params);
+                break;
+            case LogLevel.INFO:
+                console.info(prefix, record.message, ...record.params);
+                break;
+            case LogLevel.WARN:
+                console.warn(prefix, record.message, ...record.params);
+                break;
+            case LogLevel.ERROR:
+                console.error(prefix, record.message, ...record.params);
+                break;
+        }
+    }
+}
+
+/**
+ * Keeps the most recent records formatted in memory, the older ones are dropped
+ */
+export class RingBufferSink implements LogSink {
+    private capacity: number;
+    private lines: string[] = [];
+
+    constructor(capacity = 1000) {
+        this.capacity = capacity;
+    }
+
+    write(record: LogRecord) {
+        this.lines.push(formatRecord(record));
+        if (this.lines.length > this.capacity) {
+            this.lines.splice(0, this.lines.length - this.capacity);
+        }
+    }
+
+    // oldest first
+    recent(): string[] {
+        return [...this.lines];
+    }
+
+    clear() {
+        this.lines = [];
+    }
+}
+
+export type LogFileStorage = Pick<DataAdapter, "exists" | "stat" | "append" | "rename" | "remove">;
+
+/**
+ * Appends the records to a file, rotated when it grows beyond the max size.
+ * The rotated files are named after it with an increasing suffix, the oldest
+ * beyond the max files are removed.
+ */
+export class FileSink implements LogSink {
+    private storage: LogFileStorage;
+    private path: string;
+    private maxBytes: number;
+    private maxFiles: number;
+    private pending: string[] = [];
+    private writing: Promise<void> | null = null;
+    private size: number | null = null;
+
+    constructor(storage: LogFileStorage, path: string, maxBytes = 1024 * 1024, maxFiles = 3) {
+        this.storage = storage;
+        this.path = path;
+        this.maxBytes = maxBytes;
+        this.maxFiles = maxFiles;
+    }
+
+    write(record: LogRecord) {
+        this.pending.push(`${formatRecord(record)}\n`);
+        if (!this.writing) {
+            this.writing = this.writePending().finally(() => {
+                this.writing = null;
+            });
+        }
+    }
+
+    /**
+     * Waits until every record is written to the file
+     */
+    async flush(): Promise<void> {
+        while (this.writing) {
+            await this.writing;
+        }
+    }
+
+    private async writePending() {
+        while (this.pending.length > 0) {
+            const data = this.pending.splice(0).join("");
+            const bytes = new TextEncoder().encode(data).byteLength;
+
+            // the sink can't log its own failures, they would be written again
+            try {
+                if (this.size === null) {
+                    const stat = (await this.storage.exists(this.path))
+                        ? await this.storage.stat(this.path)
+                        : null;
+                    this.size = stat?.size ?? 0;
+                }
+                if (this.size > 0 && this.size + bytes > this.maxBytes) {
+                    await this.rotate();
+                }
+
+                await this.storage.append(this.path, data);
+                this.size += bytes;
+            } catch (error) {
+                console.error(logPrefix, "error while writing the log file", error);
+            }
+        }
+    }
+
+    private async rotate() {
+        const oldest = this.rotatedPath(this.maxFiles - 1);
+        if (await this.storage.exists(oldest)) {
+            await this.storage.remove(oldest);
+        }
+        for (let i = this.maxFiles - 2; i >= 1; i--) {
+            if (await this.storage.exists(this.rotatedPath(i))) {
+                await this.storage.rename(this.rotatedPath(i), this.rotatedPath(i + 1));
+            }
+        }
+
+        if (this.maxFiles > 1) {
+            await this.storage.rename(this.path, this.rotatedPath(1));
+        } else {
+            await this.storage.remove(this.path);
+        }
+        this.size = 0;
+    }
+
+    private rotatedPath(index: number): string {
+        return `${this.path}.${index}`;
+    }
+}
+
+const sinks: Set<LogSink> = new Set([new ConsoleSink()]);
+
 export class Logger {
+    private module: string;
+
+    constructor(module = "") {
+        this.module = module;
+    }
+
     debug(message: unknown, ...optionalParams: unknown[]) {
-        if (globalLogLevel > LogLevel.SILENT && globalLogLevel <= LogLevel.DEBUG) {
-            console.debug(logPrefix, message, ...optionalParams);
-        }
+        this.write(LogLevel.DEBUG, message, optionalParams);
     }
 
     info(message: unknown, ...optionalParams: unknown[]) {
-        if (globalLogLevel > LogLevel.SILENT && globalLogLevel <= LogLevel.INFO) {
-            console.info(logPrefix, message, ...optionalParams);
-        }
+        this.write(LogLevel.INFO, message, optionalParams);
     }
 
     warn(message: unknown, ...optionalParams: unknown[]) {
-        if (globalLogLevel > LogLevel.SILENT && globalLogLevel <= LogLevel.WARN) {
-            console.warn(logPrefix, message, ...optionalParams);
-        }
+        this.write(LogLevel.WARN, message, optionalParams);
     }
 
     error(message: unknown, ...optionalParams: unknown[]) {
-        if (globalLogLevel > LogLevel.SILENT && globalLogLevel <= LogLevel.ERROR) {
-            console.error(logPrefix, message, ...optionalParams);
-        }
+        this.write(LogLevel.ERROR, message, optionalParams);
+    }
+
+    child(module: LogModule): Logger {
+        return new Logger(module);
     }
+
     setGlobalLevel(level: LogLevelType) {
         globalLogLevel = level;
     }
+
+    // undefined restores the global level for the module
+    setModuleLevel(module: LogModule, level: LogLevelType | undefined) {
+        if (level === undefined) {
+            moduleLogLevels.delete(module);
+        } else {
+            moduleLogLevels.set(module, level);
+        }
+    }
+
+    /**
+     * Sends the records to the sink too, it returns a function removing it
+     */
+    addSink(sink: LogSink): () => void {
+        sinks.add(sink);
+        return () => {
+            sinks.delete(sink);
+        };
+    }
+
+    private write(level: LogLevelType, message: unknown, params: unknown[]) {
+        const threshold = moduleLogLevels.get(this.module) ?? globalLogLevel;
+        if (threshold === LogLevel.SILENT || level < threshold) {
+            return;
+        }
+
+        const record: LogRecord = {
+            timestamp: new Date().toISOString(),
+            level,
+            module: this.module,
+            message,
+            params,
+        };
+        for (const sink of sinks) {
+            sink.write(record);
+        }
+    }
 }
 
 export const log = new Logger();
+
+export function formatRecord(record: LogRecord): string {
+    const module = record.module ? ` [${record.module}]` : "";
+    const text = [record.message, ...record.params].map(formatValue).join(" ");
+    const line = `${record.timestamp} ${LEVEL_NAMES[record.level]}${module} ${text}`;
+    return line.length > MAX_LINE_LENGTH ? `${line.slice(0, MAX_LINE_LENGTH)}...` : line;
+}
+
+function formatValue(value: unknown): string {
+    if (typeof value === "string") {
+        return value;
+    }
+    if (value instanceof Error) {
+        return value.stack ?? value.message;
+    }
+
+    try {
+        return JSON.stringify(value) ?? String(value);
+    } catch {
+        return String(value);
+    }
+}
+
+const JWT_PATTERN = /eyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+const BEARER_PATTERN = /(Bearer\s+)\S+/gi;
+
+/**
+ * Hides the given secrets and anything looking like a token from the text
+ */
+export function redact(text: string, secrets: string[] = []): string {
+    let redacted = text;
+    for (const secret of secrets) {
+        if (secret) {
+            redacted = redacted.split(secret).join("[REDACTED]");
+        }
+    }
+    return redacted.replace(JWT_PATTERN, "[REDACTED]").replace(BEARER_PATTERN, "$1[REDACTED]");
+}
@@ -0,0 +1,48 @@
+import assert from "node:assert";
+import test, { describe } from "node:test";
+import { Metrics } from "./metrics";
+
+describe("Metrics", () => {
+    test("should count and time", () => {
+        const metrics = new Metrics(new Date(0));
+
+        metrics.increment("ws.in.Chunk");
+        metrics.increment("ws.in.Chunk");
+        metrics.increment("ws.bytesIn", 120);
+        metrics.observe("sync.ackLatency", 10);
+        metrics.observe("sync.ackLatency", 30);
+
+        assert.deepEqual(metrics.snapshot(), {
+            startedAt: new Date(0).toISOString(),
+            counters: { "ws.in.Chunk": 2, "ws.bytesIn": 120 },
+            timings: {
+                "sync.ackLatency": { count: 2, total: 40, min: 10, max: 30, last: 30, avg: 20 },
+            },
+        });
+    });
+
+    test("should measure with a timer", () => {
+        const metrics = new Metrics();
+
+        const stop = metrics.startTimer("sync.reconcile");
+        const elapsed = stop();
+
+        const stats = metrics.snapshot().timings["sync.reconcile"];
+        assert.equal(stats.count, 1);
+        assert.equal(stats.last, elapsed);
+    });
+
+    test("should reset", () => {
+        const metrics = new Metrics();
+        metrics.increment("ws.reconnects");
+        metrics.observe("sync.reconcile", 5);
+
+        metrics.reset(new Date(0));
+
+        assert.deepEqual(metrics.snapshot(), {
+            startedAt: new Date(0).toISOString(),
+            counters: {},
+            timings: {},
+        });
+    });
+});
@@ -0,0 +1,78 @@
+export interface TimingStats {
+    count: number;
+    // milliseconds
+    total: number;
+    min: number;
+    max: number;
+    last: number;
+}
+
+export interface MetricsSnapshot {
+    startedAt: string;
+    counters: Record<string, number>;
+    timings: Record<string, TimingStats & { avg: number }>;
+}
+
+/**
+ * Metrics collects the counters and the timings of the sync engine. The names
+ * are prefixed by the component, e.g. "ws.reconnects" or "sync.ackLatency".
+ */
+export class Metrics {
+    private startedAt: Date;
+    private counters: Map<string, number> = new Map();
+    private timings: Map<string, TimingStats> = new Map();
+
+    constructor(now: Date = new Date()) {
+        this.startedAt = now;
+    }
+
+    increment(name: string, by = 1) {
+        this.counters.set(name, (this.counters.get(name) ?? 0) + by);
+    }
+
+    observe(name: string, ms: number) {
+        const stats = this.timings.get(name);
+        if (!stats) {
+            this.timings.set(name, { count: 1, total: ms, min: ms, max: ms, last: ms });
+            return;
+        }
+
+        stats.count++;
+        stats.total += ms;
+        stats.min = Math.min(stats.min, ms);
+        stats.max = Math.max(stats.max, ms);
+        stats.last = ms;
+    }
+
+    /**
+     * Starts measuring a timing, the returned function ends it and returns the
+     * elapsed milliseconds
+     */
+    startTimer(name: string): () => number {
+        const start = performance.now();
+        return () => {
+            const elapsed = performance.now() - start;
+            this.observe(name, elapsed);
+            return elapsed;
+        };
+    }
+
+    snapshot(): MetricsSnapshot {
+        const timings: MetricsSnapshot["timings"] = {};
+        for (const [name, stats] of this.timings) {
+            timings[name] = { ...stats, avg: stats.total / stats.count };
+        }
+
+        return {
+            startedAt: this.startedAt.toISOString(),
+            counters: Object.fromEntries(this.counters),
+            timings,
+        };
+    }
+
+    reset(now: Date = new Date()) {
+        this.startedAt = now;
+        this.counters.clear();
+        this.timings.clear();
+    }
+}
@@ -1,16 +1,16 @@
-import { type Change, diffWords } from "diff";
-import { type App, Modal, Setting } from "obsidian";
+import { type App, Notice, Setting } from "obsidian";
 import { log } from "src/logger/logger";
+import { type MergeChunk, merge2, merge3 } from "../diff/merge";
+import { formatDate } from "../utils/format";
+import { PromiseModal } from "./promise";
 
-type Side = "local" | "remote" | "both";
+type Resolution = "local" | "remote" | "both";
 
-interface DiffBlock {
+interface Hunk {
     id: number;
-    value: string;
-    added?: boolean;
-    removed?: boolean;
-    selected?: boolean;
-    side?: Side;
+    chunk: MergeChunk;
+    resolution?: Resolution;
+    el?: HTMLElement;
 }
 
 export interface FileDiff {
@@ -18,38 +18,59 @@ export interface FileDiff {
     content: string;
 }
 
-export class DiffModal extends Modal {
+export type MergeOutcome =
+    | { type: "merged"; content: string }
+    | { type: "keep-local" }
+    | { type: "keep-remote" }
+    | { type: "deferred" };
+
+// unchanged lines shown around each conflict
+const CONTEXT_LINES = 3;
+
+/**
+ * Merges the local and the remote versions of a file, it resolves with the
+ * outcome chosen by the user
+ */
+export class DiffModal extends PromiseModal<MergeOutcome> {
     private local: FileDiff;
     private remote: FileDiff;
+    private base: string | null;
     private filename: string;
-    private mergedContent = "";
-    private diffs: DiffBlock[] = [];
-    private mergedContentEl: HTMLElement | null = null;
-    private spans: Record<number, HTMLSpanElement> = {};
-    private resolvePromise: ((value: string) => void) | null = null;
-
-    constructor(app: App, filename: string, local: FileDiff, remote: FileDiff) {
-        super(app);
+    private hunks: Hunk[] = [];
+    private conflicts: Hunk[] = [];
+    private currentConflict = 0;
+    private mergedEditEl: HTMLTextAreaElement | null = null;
+    private counterEl: HTMLElement | null = null;
+    private manuallyEdited = false;
+
+    constructor(
+        app: App,
+        filename: string,
+        local: FileDiff,
+        remote: FileDiff,
+        base: string | null = null,
+    ) {
+        // closing the modal without a choice defers the conflict
+        super(app, { type: "deferred" });
         this.filename = filename;
         this.local = local;
         this.remote = remote;
+        this.base = base;
     }
 
     onOpen() {
         const { contentEl } = this;
 
-        // set a content, so onClose it will return something
-        this.mergedContent = this.remote.content;
         if (contentEl.parentElement === null) {
             log.error("error opening DiffModal, missing parent element on contentEL");
             this.close();
             return;
         }
-        this.calculateDiffs();
-        // one diff means no changes
-        if (this.diffs.length === 1) {
-            log.debug("closing DiffModal, no diffs calculated");
-            this.close();
+
+        this.calculateHunks();
+        if (this.conflicts.length === 0) {
+            log.debug("closing DiffModal, no conflicts calculated");
+            this.closeWith({ type: "merged", content: this.mergedContent() });
             return;
         }
 
@@ -61,43 +82,83 @@ export class DiffModal extends Modal {
             cls: "filename-container",
             text: `Merge conflict: ${this.filename}`,
         });
-        const container = contentEl.createDiv({ cls: "diff-container" });
 
-        const localColumn = container.createDiv({ cls: "diff-column" });
-        const mergedColumn = container.createDiv({ cls: "diff-column" });
-        const remoteColumn = container.createDiv({ cls: "diff-column" });
+        this.createNavigation(contentEl);
 
-        this.createSideHeader(localColumn, "local");
-        this.createMergeHeader(mergedColumn, "Merged Result");
-        this.createSideHeader(remoteColumn, "remote");
+        const container = contentEl.createDiv({ cls: "diff-container" });
+        const hunksColumn = container.createDiv({ cls: "diff-column" });
+        const mergedColumn = container.createDiv({ cls: "diff-column" });
 
-        this.updateMergedContent();
+        this.createHunksHeader(hunksColumn);
+        this.createHunks(hunksColumn);
 
-        this.createDiffContent(localColumn, "local");
+        this.createMergeHeader(mergedColumn, "Merged Result");
         this.createMergedContent(mergedColumn);
-        this.createDiffContent(remoteColumn, "remote");
 
         const saveButtonContainer = contentEl.createDiv({ cls: "save-button-container" });
-        new Setting(saveButtonContainer).addButton((btn) =>
-            btn
-                .setButtonText("Save Merged Version")
-                .setCta()
-                .onClick(() => this.saveMergedContent()),
-        );
+        new Setting(saveButtonContainer)
+            .addButton((btn) => btn.setButtonText("Decide later").onClick(() => this.close()))
+            .addButton((btn) =>
+                btn
+                    .setButtonText("Keep local")
+                    .onClick(() => this.closeWith({ type: "keep-local" })),
+            )
+            .addButton((btn) =>
+                btn
+                    .setButtonText("Keep remote")
+                    .onClick(() => this.closeWith({ type: "keep-remote" })),
+            )
+            .addButton((btn) =>
+                btn
+                    .setButtonText("Save Merged Version")
+                    .setCta()
+                    .onClick(() => this.saveMergedContent()),
+            );
+
+        this.goToConflict(0);
+    }
+
+    private calculateHunks() {
+        const { chunks } =
+            this.base !== null
+                ? merge3(this.base, this.local.content, this.remote.content)
+                : merge2(this.local.content, this.remote.content);
+
+        this.hunks = chunks.map((chunk, id) => ({ id, chunk }));
+        this.conflicts = this.hunks.filter((hunk) => hunk.chunk.type === "conflict");
     }
 
-    private createSideHeader(container: HTMLElement, side: Side) {
+    private createNavigation(container: HTMLElement) {
+        const navigation = container.createDiv({ cls: "conflict-navigation" });
+        this.counterEl = navigation.createSpan();
+
+        new Setting(navigation)
+            .addButton((btn) =>
+                btn
+                    .setButtonText("Previous conflict")
+                    .onClick(() => this.goToConflict(this.currentConflict - 1)),
+            )
+            .addButton((btn) =>
+                btn
+                    .setButtonText("Next conflict")
+                    .onClick(() => this.goToConflict(this.currentConflict + 1)),
+            );
+    }
+
+    private createHunksHeader(container: HTMLElement) {
         const header = container.createDiv({ cls: "diff-header" });
         const titleDiv = header.createDiv({ cls: "diff-header-title" });
+        titleDiv.createEl("h3", { text: "Changes" });
 
-        const title = side === "local" ? "Local version" : "Remote version";
-        const time = side === "local" ? this.local.lastUpdate : this.remote.lastUpdate;
-        const subtitle = `Last update: ${formatDate(time)}`;
+        const buttons = titleDiv.createDiv();
+        const localButton = buttons.createEl("button", { text: "Accept all local" });
+        localButton.onclick = () => this.resolveAll("local");
+        const remoteButton = buttons.createEl("button", { text: "Accept all remote" });
+        remoteButton.onclick = () => this.resolveAll("remote");
 
-        titleDiv.createEl("h3", { text: title });
-        const button = titleDiv.createEl("button", { text: "Select All" });
-        button.onclick = () => this.selectAllChanges(side);
-        header.createEl("small", { text: subtitle });
+        header.createEl("small", {
+            text: `Local: ${formatDate(this.local.lastUpdate)} - Remote: ${formatDate(this.remote.lastUpdate)}`,
+        });
     }
 
     private createMergeHeader(container: HTMLElement, title: string) {
@@ -106,151 +167,187 @@ export class DiffModal extends Modal {
         titleDiv.createEl("h3", { text: title });
     }
 
-    private updateSpanColor(diffId: number) {
-        const span = this.spans[diffId];
-        const diff = this.diffs[diffId];
-        if (span && diff) {
-            span.style.backgroundColor = diff.selected
-                ? "var(--background-modifier-success)"
-                : "var(--background-modifier-error)";
+    private createHunks(container: HTMLElement) {
+        const scrollContainer = container.createDiv({ cls: "scroll-container" });
+        scrollContainer.style.overflow = "auto";
+        scrollContainer.style.flex = "1";
+
+        const content = scrollContainer.createDiv({ cls: "diff-content" });
+
+        for (let i = 0; i < this.hunks.length; i++) {
+            const hunk = this.hunks[i];
+            const { chunk } = hunk;
+
+            if (chunk.type === "stable") {
+                const showHead = i > 0;
+                const showTail = i < this.hunks.length - 1;
+                this.createStableHunk(content, chunk.lines, showHead, showTail);
+                continue;
+            }
+
+            const hunkEl = content.createDiv({ cls: "conflict-hunk" });
+            hunk.el = hunkEl;
+
+            const sides = hunkEl.createDiv({ cls: "conflict-hunk-sides" });
+            const localEl = sides.createDiv({ cls: "conflict-hunk-side" });
+            localEl.createEl("small", { text: "Local" });
+            localEl.createDiv({ cls: "conflict-hunk-lines", text: chunk.local.join("") });
+            const remoteEl = sides.createDiv({ cls: "conflict-hunk-side" });
+            remoteEl.createEl("small", { text: "Remote" });
+            remoteEl.createDiv({ cls: "conflict-hunk-lines", text: chunk.remote.join("") });
+
+            new Setting(hunkEl)
+                .addButton((btn) =>
+                    btn.setButtonText("Accept local").onClick(() => this.resolve(hunk, "local")),
+                )
+                .addButton((btn) =>
+                    btn.setButtonText("Accept remote").onClick(() => this.resolve(hunk, "remote")),
+                )
+                .addButton((btn) =>
+                    btn.setButtonText("Accept both").onClick(() => this.resolve(hunk, "both")),
+                );
+
+            this.updateHunkStatus(hunk);
         }
     }
 
-    private toggleSelection(diffId: number) {
-        const diff = this.diffs[diffId];
-        if (diff) {
-            diff.selected = !diff.selected;
-            this.updateSpanColor(diffId);
-            this.updateMergedContent();
+    // long unchanged sections are collapsed, keeping only the lines near the conflicts
+    private createStableHunk(
+        container: HTMLElement,
+        lines: string[],
+        showHead: boolean,
+        showTail: boolean,
+    ) {
+        const head = showHead ? lines.slice(0, CONTEXT_LINES) : [];
+        const tail = showTail
+            ? lines.slice(Math.max(head.length, lines.length - CONTEXT_LINES))
+            : [];
+        const hidden = lines.length - head.length - tail.length;
+
+        if (head.length > 0) {
+            container.createDiv({ cls: "stable-hunk", text: head.join("") });
+        }
+        if (hidden > 0) {
+            container.createDiv({
+                cls: "stable-hunk-collapsed",
+                text: `… ${hidden} unchanged lines`,
+            });
+        }
+        if (tail.length > 0) {
+            container.createDiv({ cls: "stable-hunk", text: tail.join("") });
         }
     }
 
-    private calculateDiffs() {
-        const differences = diffWords(this.local.content, this.remote.content);
+    private createMergedContent(container: HTMLElement) {
+        this.mergedEditEl = container.createEl("textarea", { cls: "merged-content" });
+        this.mergedEditEl.style.flex = "1";
+        this.mergedEditEl.style.resize = "none";
+        this.mergedEditEl.oninput = () => {
+            this.manuallyEdited = true;
+        };
+        this.updateMergedContent();
+    }
 
-        const side = (diff: Change): Side => {
-            if (!diff.added && !diff.removed) {
-                return "both";
-            }
-            if (!diff.added && diff.removed) {
-                return "local";
-            }
-            if (diff.added && !diff.removed) {
-                return "remote";
-            }
+    private resolve(hunk: Hunk, resolution: Resolution) {
+        hunk.resolution = resolution;
+        this.updateHunkStatus(hunk);
+        this.updateMergedContent();
 
-            throw new Error("unreachable");
-        };
+        const index = this.conflicts.indexOf(hunk);
+        const next = this.conflicts.findIndex((h, i) => i > index && h.resolution === undefined);
+        if (next !== -1) {
+            this.goToConflict(next);
+        } else {
+            this.updateCounter();
+        }
+    }
 
-        for (let i = 0; i < differences.length; i++) {
-            const diff = differences[i];
-            const customDiff = {
-                ...diff,
-                id: i,
-                selected: !diff.added && !diff.removed,
-                side: side(diff),
-            };
-            this.diffs.push(customDiff);
-
-            if (customDiff.side !== "both") {
-                const span = createSpan();
-                span.setText(diff.value);
-                span.style.cursor = "pointer";
-                span.dataset.index = `${i}`;
-
-                this.spans[i] = span;
-                this.updateSpanColor(i);
-                span.onclick = () => this.toggleSelection(i);
-            }
+    private resolveAll(resolution: Resolution) {
+        for (const hunk of this.conflicts) {
+            hunk.resolution = resolution;
+            this.updateHunkStatus(hunk);
         }
+        this.updateMergedContent();
+        this.updateCounter();
     }
 
-    private createDiffContent(container: HTMLElement, side: Side) {
-        const scrollContainer = container.createDiv({ cls: "scroll-container" });
-        scrollContainer.style.overflow = "auto";
-        scrollContainer.style.flex = "1";
+    private updateHunkStatus(hunk: Hunk) {
+        if (!hunk.el) return;
 
-        const content = scrollContainer.createDiv({ cls: "diff-content" });
-        content.style.whiteSpace = "pre-wrap";
-
-        for (let i = 0; i < this.diffs.length; i++) {
-            let spanToAppend: HTMLSpanElement;
-            if (this.diffs[i].side === "both") {
-                const span = createSpan();
-                span.setText(this.diffs[i].value);
-                spanToAppend = span;
-            } else if (this.diffs[i].side === side) {
-                spanToAppend = this.spans[i];
-            } else {
-                continue;
-            }
-            content.append(spanToAppend);
-        }
+        hunk.el.toggleClass("conflict-hunk-resolved", hunk.resolution !== undefined);
+        hunk.el.toggleClass("conflict-hunk-current", this.conflicts[this.currentConflict] === hunk);
     }
 
-    private createMergedContent(container: HTMLElement) {
-        const scrollContainer = container.createDiv({ cls: "scroll-container" });
-        scrollContainer.style.overflow = "auto";
-        scrollContainer.style.flex = "1";
+    private goToConflict(index: number) {
+        if (this.conflicts.length === 0) return;
 
-        this.mergedContentEl = scrollContainer.createDiv({ cls: "merged-content" });
-        this.mergedContentEl.style.whiteSpace = "pre-wrap";
-        this.updateMergedContent();
+        const previous = this.conflicts[this.currentConflict];
+        this.currentConflict = (index + this.conflicts.length) % this.conflicts.length;
+        this.updateHunkStatus(previous);
+
+        const current = this.conflicts[this.currentConflict];
+        this.updateHunkStatus(current);
+        current.el?.scrollIntoView({ behavior: "smooth", block: "center" });
+        this.updateCounter();
     }
 
-    private updateMergedContent() {
-        if (!this.mergedContentEl) return;
+    private updateCounter() {
+        if (!this.counterEl) return;
 
-        this.mergedContent = "";
-        for (const diff of this.diffs) {
-            if (diff.selected) {
-                this.mergedContent += diff.value;
-            }
-        }
+        const unresolved = this.unresolvedConflicts();
+        this.counterEl.setText(
+            `Conflict ${this.currentConflict + 1} of ${this.conflicts.length} (${unresolved} unresolved)`,
+        );
+    }
 
-        this.mergedContentEl.setText(this.mergedContent);
+    private unresolvedConflicts(): number {
+        return this.conflicts.filter((hunk) => hunk.resolution === undefined).length;
     }
 
-    private selectAllChanges(sideToSelect: Side) {
-        for (let i = 0; i < this.diffs.length; i++) {
-            const { side, id, selected } = this.diffs[i];
-            if (side === sideToSelect && selected === false) {
-                this.toggleSelection(id);
+    // unresolved conflicts keep the remote version
+    private mergedContent(): string {
+        let content = "";
+        for (const { chunk, resolution } of this.hunks) {
+            if (chunk.type === "stable") {
+                content += chunk.lines.join("");
+                continue;
+            }
+
+            switch (resolution) {
+                case "local":
+                    content += chunk.local.join("");
+                    break;
+                case "both":
+                    content += chunk.local.join("") + chunk.remote.join("");
+                    break;
+                default:
+                    content += chunk.remote.join("");
             }
         }
+        return content;
     }
 
-    private saveMergedContent() {
-        this.close();
-    }
+    private updateMergedContent() {
+        if (!this.mergedEditEl) return;
 
-    onClose() {
-        const { contentEl } = this;
-        contentEl.empty();
-        if (this.resolvePromise) {
-            this.updateMergedContent();
-            this.resolvePromise(this.mergedContent);
+        if (this.manuallyEdited) {
+            new Notice("Manual changes in merged result overwritten");
+            this.manuallyEdited = false;
         }
+        this.mergedEditEl.value = this.mergedContent();
     }
 
-    open(): Promise<string> {
-        return new Promise((resolve) => {
-            this.resolvePromise = resolve;
-            super.open();
+    private saveMergedContent() {
+        const unresolved = this.unresolvedConflicts();
+        if (unresolved > 0 && !this.manuallyEdited) {
+            new Notice(`${unresolved} conflicts still unresolved`);
+            this.goToConflict(this.conflicts.findIndex((hunk) => hunk.resolution === undefined));
+            return;
+        }
+
+        this.closeWith({
+            type: "merged",
+            content: this.mergedEditEl?.value ?? this.mergedContent(),
         });
     }
 }
-
-function formatDate(date: Date): string {
-    return date
-        .toLocaleString("en-GB", {
-            day: "2-digit",
-            month: "2-digit",
-            year: "2-digit",
-            hour: "2-digit",
-            minute: "2-digit",
-            second: "2-digit",
-            hour12: false,
-        })
-        .replace(",", "");
-}
@@ -0,0 +1,62 @@
+import { type App, Setting } from "obsidian";
+import { PromiseModal } from "./promise";
+
+export interface DeletionRequest {
+    // local: deleted in this vault, remote: deleted by another client,
+    // offline: deleted in this vault while the plugin was not running
+    origin: "local" | "remote" | "offline";
+    paths: string[];
+}
+
+// paths listed in the modal, the others are only counted
+const MAX_LISTED_PATHS = 20;
+
+/**
+ * Asks the user to confirm a deletion involving many files, it resolves with
+ * true if the deletion is confirmed
+ */
+export class DeletionModal extends PromiseModal<boolean> {
+    private request: DeletionRequest;
+
+    constructor(app: App, request: DeletionRequest) {
+        // closing the modal without a choice keeps the files
+        super(app, false);
+        this.request = request;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const { origin, paths } = this.request;
+
+        contentEl.createEl("h2", { text: `Delete ${paths.length} files?` });
+        contentEl.createEl("p", { text: describeOrigin(origin) });
+
+        const list = contentEl.createEl("ul");
+        for (const path of paths.slice(0, MAX_LISTED_PATHS)) {
+            list.createEl("li", { text: path });
+        }
+        if (paths.length > MAX_LISTED_PATHS) {
+            contentEl.createEl("p", { text: `and ${paths.length - MAX_LISTED_PATHS} more` });
+        }
+
+        new Setting(contentEl)
+            .addButton((btn) => btn.setButtonText("Keep files").onClick(() => this.close()))
+            .addButton((btn) =>
+                btn
+                    .setButtonText("Delete")
+                    .setWarning()
+                    .onClick(() => this.closeWith(true)),
+            );
+    }
+}
+
+function describeOrigin(origin: DeletionRequest["origin"]): string {
+    switch (origin) {
+        case "local":
+            return "These files have been deleted in this vault. Keeping them restores them from the server.";
+        case "remote":
+            return "These files have been deleted by another device. Keeping them uploads them again.";
+        case "offline":
+            return "These files have been deleted while the plugin was not running. Keeping them restores them from the server.";
+    }
+}
@@ -0,0 +1,98 @@
+import { type App, Modal, Setting } from "obsidian";
+
+export type IntegrityIssueKind = "drift" | "missing" | "extra" | "stale";
+
+export type RepairAction = "download" | "upload" | "delete";
+
+export interface IntegrityIssue {
+    kind: IntegrityIssueKind;
+    path: string;
+    // undefined for the local files unknown to remote
+    fileId?: number;
+    detail?: string;
+}
+
+const KIND_LABELS: Record<IntegrityIssueKind, string> = {
+    drift: "Content drift",
+    missing: "Missing locally",
+    extra: "Missing in remote",
+    stale: "Stale version",
+};
+
+export const REPAIR_ACTIONS: Record<IntegrityIssueKind, RepairAction[]> = {
+    drift: ["download", "upload"],
+    missing: ["download"],
+    extra: ["upload", "delete"],
+    stale: ["download"],
+};
+
+const ACTION_LABELS: Record<RepairAction, string> = {
+    download: "Use remote",
+    upload: "Use local",
+    delete: "Delete local",
+};
+
+/**
+ * Lists the differences between the vault and remote, every one can be
+ * repaired on its own
+ */
+export class IntegrityModal extends Modal {
+    private issues: IntegrityIssue[];
+    // it returns false if the repair failed
+    private onRepair: (issue: IntegrityIssue, action: RepairAction) => Promise<boolean>;
+
+    constructor(
+        app: App,
+        issues: IntegrityIssue[],
+        onRepair: (issue: IntegrityIssue, action: RepairAction) => Promise<boolean>,
+    ) {
+        super(app);
+        this.issues = issues;
+        this.onRepair = onRepair;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl("h2", { text: `${this.issues.length} differences found` });
+        contentEl.createEl("p", {
+            text: "The local copies replaced by remote are moved to the trash.",
+        });
+
+        for (const kind of Object.keys(KIND_LABELS) as IntegrityIssueKind[]) {
+            const issues = this.issues.filter((issue) => issue.kind === kind);
+            if (issues.length === 0) {
+                continue;
+            }
+
+            contentEl.createEl("h4", { text: `${KIND_LABELS[kind]} (${issues.length})` });
+            for (const issue of issues) {
+                const setting = new Setting(contentEl).setName(issue.path);
+                if (issue.detail) {
+                    setting.setDesc(issue.detail);
+                }
+
+                for (const action of REPAIR_ACTIONS[kind]) {
+                    setting.addButton((btn) =>
+                        btn.setButtonText(ACTION_LABELS[action]).onClick(async () => {
+                            btn.setDisabled(true);
+                            if (await this.onRepair(issue, action)) {
+                                setting.settingEl.remove();
+                            } else {
+                                btn.setDisabled(false);
+                            }
+                        }),
+                    );
+                }
+            }
+        }
+
+        new Setting(contentEl).addButton((btn) =>
+            btn.setButtonText("Close").onClick(() => this.close()),
+        );
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,73 @@
+import { type App, Setting } from "obsidian";
+import { PromiseModal } from "./promise";
+
+export type ReconcileAction = "download" | "upload" | "overwrite" | "merge" | "delete" | "rename";
+
+export interface ReconcileStep {
+    action: ReconcileAction;
+    path: string;
+    // how the step is done, e.g. which side wins an overwrite
+    detail?: string;
+}
+
+const ACTION_LABELS: Record<ReconcileAction, string> = {
+    download: "Download",
+    upload: "Upload",
+    overwrite: "Overwrite",
+    merge: "Merge",
+    delete: "Delete",
+    rename: "Rename",
+};
+
+// steps listed for every action, the others are only counted
+const MAX_LISTED_STEPS = 20;
+
+/**
+ * Shows the changes the reconciliation is going to apply and asks to confirm
+ * them, it resolves with true if they are confirmed
+ */
+export class PlanModal extends PromiseModal<boolean> {
+    private steps: ReconcileStep[];
+
+    constructor(app: App, steps: ReconcileStep[]) {
+        // closing the modal without a choice doesn't apply the changes
+        super(app, false);
+        this.steps = steps;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl("h2", { text: `Apply ${this.steps.length} changes?` });
+        contentEl.createEl("p", {
+            text: "The vault differs from the workspace on the server. Not applying the changes pauses the sync.",
+        });
+
+        for (const action of Object.keys(ACTION_LABELS) as ReconcileAction[]) {
+            const steps = this.steps.filter((step) => step.action === action);
+            if (steps.length === 0) {
+                continue;
+            }
+
+            contentEl.createEl("h4", { text: `${ACTION_LABELS[action]} (${steps.length})` });
+            const list = contentEl.createEl("ul");
+            for (const step of steps.slice(0, MAX_LISTED_STEPS)) {
+                list.createEl("li", {
+                    text: step.detail ? `${step.path}, ${step.detail}` : step.path,
+                });
+            }
+            if (steps.length > MAX_LISTED_STEPS) {
+                contentEl.createEl("p", { text: `and ${steps.length - MAX_LISTED_STEPS} more` });
+            }
+        }
+
+        new Setting(contentEl)
+            .addButton((btn) => btn.setButtonText("Pause sync").onClick(() => this.close()))
+            .addButton((btn) =>
+                btn
+                    .setButtonText("Apply")
+                    .setCta()
+                    .onClick(() => this.closeWith(true)),
+            );
+    }
+}
@@ -0,0 +1,35 @@
+import { type App, Modal } from "obsidian";
+
+/**
+ * A modal whose open resolves with the result chosen by the user once it is
+ * closed. Closing it without a choice resolves with the default result.
+ */
+export abstract class PromiseModal<T> extends Modal {
+    protected result: T;
+    private resolvePromise: ((value: T) => void) | null = null;
+
+    constructor(app: App, defaultResult: T) {
+        super(app);
+        this.result = defaultResult;
+    }
+
+    protected closeWith(result: T) {
+        this.result = result;
+        this.close();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        if (this.resolvePromise) {
+            this.resolvePromise(this.result);
+            this.resolvePromise = null;
+        }
+    }
+
+    open(): Promise<T> {
+        return new Promise((resolve) => {
+            this.resolvePromise = resolve;
+            super.open();
+        });
+    }
+}
@@ -0,0 +1,54 @@
+import { type App, Modal, Setting } from "obsidian";
+
+/**
+ * Asks the user to reload obsidian, to apply the configuration received from remote
+ */
+export class ReloadModal extends Modal {
+    private paths: string[];
+    private onCloseCallback: () => void;
+
+    constructor(app: App, paths: string[], onClose: () => void = () => {}) {
+        super(app);
+        this.paths = [...paths];
+        this.onCloseCallback = onClose;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+
+        contentEl.createEl("h2", { text: "Configuration updated" });
+        contentEl.createEl("p", {
+            text: "The configuration has been changed by another device, reload Obsidian to apply it.",
+        });
+
+        const list = contentEl.createEl("ul");
+        for (const path of this.paths) {
+            list.createEl("li", { text: path });
+        }
+
+        new Setting(contentEl)
+            .addButton((btn) => btn.setButtonText("Later").onClick(() => this.close()))
+            .addButton((btn) =>
+                btn
+                    .setButtonText("Reload")
+                    .setCta()
+                    .onClick(() => window.location.reload()),
+            );
+    }
+
+    // adds the paths changed while the modal is open
+    addPaths(paths: string[]) {
+        for (const path of paths) {
+            if (!this.paths.includes(path)) {
+                this.paths.push(path);
+            }
+        }
+        this.contentEl.empty();
+        this.onOpen();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        this.onCloseCallback();
+    }
+}
@@ -0,0 +1,38 @@
+import { type App, FuzzySuggestModal } from "obsidian";
+import type { ConflictResolution } from "../plugin";
+
+interface ResyncDirection {
+    strategy: ConflictResolution;
+    label: string;
+}
+
+const DIRECTIONS: ResyncDirection[] = [
+    { strategy: "remote", label: "Server wins" },
+    { strategy: "local", label: "Local wins" },
+    { strategy: "merge", label: "Interactive, solve every conflict with the merge tool" },
+];
+
+/**
+ * Asks which side wins the conflicts found by a full resync
+ */
+export class ResyncModal extends FuzzySuggestModal<ResyncDirection> {
+    private onChoose: (strategy: ConflictResolution) => void;
+
+    constructor(app: App, onChoose: (strategy: ConflictResolution) => void) {
+        super(app);
+        this.onChoose = onChoose;
+        this.setPlaceholder("Choose how to solve the conflicts");
+    }
+
+    getItems(): ResyncDirection[] {
+        return DIRECTIONS;
+    }
+
+    getItemText(direction: ResyncDirection): string {
+        return direction.label;
+    }
+
+    onChooseItem(direction: ResyncDirection) {
+        this.onChoose(direction.strategy);
+    }
+}
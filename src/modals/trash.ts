@@ -0,0 +1,30 @@
+import { type App, FuzzySuggestModal } from "obsidian";
+import type { TrashEntry } from "../trash";
+
+/**
+ * Lists the files in the trash, the chosen one is restored
+ */
+export class TrashModal extends FuzzySuggestModal<TrashEntry> {
+    private entries: TrashEntry[];
+    private onChoose: (entry: TrashEntry) => void;
+
+    constructor(app: App, entries: TrashEntry[], onChoose: (entry: TrashEntry) => void) {
+        super(app);
+        this.entries = entries;
+        this.onChoose = onChoose;
+        this.setPlaceholder("Choose a file to restore");
+    }
+
+    getItems(): TrashEntry[] {
+        return this.entries;
+    }
+
+    getItemText(entry: TrashEntry): string {
+        const date = new Date(entry.trashedAt).toLocaleString();
+        return `${entry.workspacePath} (${entry.reason} ${date})`;
+    }
+
+    onChooseItem(entry: TrashEntry) {
+        this.onChoose(entry);
+    }
+}
@@ -8,14 +8,20 @@ import { ApiClient, type WorkspaceCredentials } from "./api/api";
 import { HttpClient } from "./api/http";
 import { type ChunkMessage, type EventMessage, MessageType, WsClient } from "./api/ws";
 import { computeDiff } from "./diff/diff";
+import { Journal } from "./journal";
+import type { DeletionRequest } from "./modals/deletion";
+import type { ReconcileStep } from "./modals/plan";
 import { Syncinator } from "./plugin";
 import { Disk } from "./storage/storage";
 import { CreateVaultMock } from "./storage/storage.mock";
 import { base64ToArrayBuffer } from "./utils/base64Utils";
+import { generateSHA256Hash } from "./utils/crypto";
 import {
+    type ConflictEventMap,
     type CursorEventMap,
     EventBus,
     type ObsidianEventMap,
+    type PendingConflict,
     type Snapshot,
     type SnapshotEventMap,
 } from "./utils/eventBus";
@@ -63,6 +69,7 @@ describe("Plugin integration tests", () => {
     let snapshotEventBus: EventBus<SnapshotEventMap>;
     let obsidianEventBus: EventBus<ObsidianEventMap>;
     let cursorEventBus: EventBus<CursorEventMap>;
+    let journal: Journal;
     beforeEach(async () => {
         vaultRootDir = await fs.mkdtemp("/tmp/storage_test");
         vault = CreateVaultMock(vaultRootDir);
@@ -84,6 +91,7 @@ describe("Plugin integration tests", () => {
         snapshotEventBus = new EventBus<SnapshotEventMap>();
         obsidianEventBus = new EventBus<ObsidianEventMap>();
         cursorEventBus = new EventBus<CursorEventMap>();
+        journal = new Journal();
 
         syncinator = new Syncinator(
             storage,
@@ -91,14 +99,24 @@ describe("Plugin integration tests", () => {
             wsClient,
             {
                 diffModal: async () => {
-                    return "";
+                    return { type: "deferred" };
                 },
+                confirmDeletion: async () => true,
                 snapshotEventBus,
                 obsidianEventBus,
                 cursorEventBus,
+                conflictEventBus: new EventBus<ConflictEventMap>(),
+                journal,
             },
             {
                 conflictResolution: "remote",
+                deviceName: "test",
+                lazyDownloadThreshold: 0,
+                prefetchBudget: 0,
+                include: [],
+                exclude: [],
+                massDeletionCount: 0,
+                massDeletionPercentage: 0,
             },
         );
     });
@@ -170,6 +188,86 @@ describe("Plugin integration tests", () => {
             assert.deepEqual(syncinator.cacheDump(), [{ ...files[0], content }]);
         });
 
+        test("should sync empty folders", async (t) => {
+            const onlineFolder = await apiClient.createFolder("remote");
+            await storage.write("local", "", { isDir: true });
+
+            const sendMessage = t.mock.method(wsClient, "sendMessage", () => {});
+
+            await syncinator.init();
+
+            assert.equal(await storage.exists(onlineFolder.workspacePath), true);
+
+            const folders = await apiClient.fetchFolders();
+            const localFolder = folders.find((folder) => folder.workspacePath === "local");
+            assert.ok(localFolder);
+
+            assert.strictEqual(sendMessage.mock.callCount(), 1);
+            assert.deepEqual(sendMessage.mock.calls[0].arguments[0], {
+                type: MessageType.Create,
+                fileId: localFolder.id,
+                objectType: "folder",
+                workspacePath: "local",
+            } as EventMessage);
+        });
+
+        test("should skip excluded files", async (t) => {
+            const content = "lorem ipsum";
+
+            await apiClient.createFile("videos/remote.md", content);
+            const onlineFile = await apiClient.createFile("files/remote.md", content);
+            await storage.write("videos/local.md", content);
+            await storage.write("files/local.md", content);
+
+            const sendMessage = t.mock.method(wsClient, "sendMessage", () => {});
+
+            const selectiveSyncinator = new Syncinator(
+                storage,
+                apiClient,
+                wsClient,
+                {
+                    diffModal: async () => {
+                        return { type: "deferred" };
+                    },
+                    confirmDeletion: async () => true,
+                    snapshotEventBus: new EventBus<SnapshotEventMap>(),
+                    obsidianEventBus: new EventBus<ObsidianEventMap>(),
+                    cursorEventBus: new EventBus<CursorEventMap>(),
+                    conflictEventBus: new EventBus<ConflictEventMap>(),
+                    journal,
+                },
+                {
+                    conflictResolution: "remote",
+                    deviceName: "test",
+                    lazyDownloadThreshold: 0,
+                    prefetchBudget: 0,
+                    include: [],
+                    exclude: ["videos/"],
+                    massDeletionCount: 0,
+                    massDeletionPercentage: 0,
+                },
+            );
+
+            await selectiveSyncinator.init();
+
+            // checking remote
+            const files = await apiClient.fetchFiles();
+            assert.deepEqual(files.map((f) => f.workspacePath).sort(), [
+                "files/local.md",
+                "files/remote.md",
+                "videos/remote.md",
+            ]);
+
+            // checking local vault
+            assert.equal(await storage.exists("videos/remote.md"), false);
+
+            // checking cache
+            const cached = selectiveSyncinator.cacheDump().map((f) => f.workspacePath);
+            assert.deepEqual(cached.sort(), ["files/local.md", onlineFile.workspacePath]);
+
+            assert.equal(sendMessage.mock.callCount(), 1);
+        });
+
         test("should align changes with 'remote' priority", async (t) => {
             // initializing a file in remote
             const localContent = "local";
@@ -218,6 +316,63 @@ describe("Plugin integration tests", () => {
             assert.equal(sendMessage.mock.callCount(), 0);
         });
 
+        test("should upload the local binary without downloading the remote one with 'local' priority", async (t) => {
+            const localContent = base64ToArrayBuffer("JVBERi1sb2NhbA==");
+            const remoteContent = base64ToArrayBuffer("JVBERi1yZW1vdGU=");
+            const filepath = "files/binary_conflict.pdf";
+
+            syncinator.options.conflictResolution = "local";
+
+            const onlineFile = await apiClient.createFile(filepath, remoteContent);
+            await storage.write(filepath, localContent);
+
+            t.mock.method(wsClient, "sendMessage", () => {});
+            const fetchFile = t.mock.method(apiClient, "fetchFile");
+
+            await syncinator.init();
+
+            assert.strictEqual(fetchFile.mock.callCount(), 0);
+            fetchFile.mock.restore();
+
+            const remoteFile = await apiClient.fetchFile(onlineFile.id);
+            assert.deepEqual(remoteFile.content, localContent);
+            assert.deepEqual(await storage.readBinary(filepath), localContent);
+        });
+
+        test("should keep both binary files with 'keep-both' priority", async (t) => {
+            const localContent = base64ToArrayBuffer("JVBERi1sb2NhbA==");
+            const remoteContent = base64ToArrayBuffer("JVBERi1yZW1vdGU=");
+            const filepath = "files/binary_conflict.pdf";
+
+            syncinator.options.conflictResolution = "keep-both";
+
+            await apiClient.createFile(filepath, remoteContent);
+            await storage.write(filepath, localContent);
+
+            const sendMessage = t.mock.method(wsClient, "sendMessage", () => {});
+
+            await syncinator.init();
+
+            const files = await apiClient.fetchFiles();
+            assert.equal(files.length, 2);
+
+            const copy = files.find((f) => f.workspacePath !== filepath);
+            assert.ok(copy);
+            assert.match(copy.workspacePath, /^files\/binary_conflict \(conflict test .+\)\.pdf$/);
+
+            // checking local vault
+            assert.deepEqual(await storage.readBinary(filepath), remoteContent);
+            assert.deepEqual(await storage.readBinary(copy.workspacePath), localContent);
+
+            assert.equal(sendMessage.mock.callCount(), 1);
+            assert.deepEqual(sendMessage.mock.calls[0].arguments[0], {
+                type: MessageType.Create,
+                fileId: copy.id,
+                objectType: "file",
+                workspacePath: copy.workspacePath,
+            } as EventMessage);
+        });
+
         test("should align changes with 'merge' priority", async (t) => {
             // initializing a file in remote
             const localContent = "local";
@@ -232,7 +387,7 @@ describe("Plugin integration tests", () => {
 
             const sendMessage = t.mock.method(wsClient, "sendMessage", () => {});
             const diffModal = t.mock.method(syncinator.contracts, "diffModal", () => {
-                return mergedContent;
+                return { type: "merged", content: mergedContent };
             });
 
             await syncinator.init();
@@ -260,6 +415,293 @@ describe("Plugin integration tests", () => {
                 fileId: onlineFile.id,
             } as ChunkMessage);
         });
+
+        test("should rebase offline changes stored in journal", async (t) => {
+            const baseContent = "lorem ipsum";
+            const localContent = "lorem ipsum dolor";
+            const filepath = "files/offline.md";
+
+            syncinator.options.conflictResolution = "remote";
+
+            const onlineFile = await apiClient.createFile(filepath, baseContent);
+            await storage.write(filepath, localContent);
+            journal.set({
+                fileId: onlineFile.id,
+                workspacePath: filepath,
+                version: onlineFile.version,
+                base: baseContent,
+                pending: [],
+            });
+
+            const sendMessage = t.mock.method(wsClient, "sendMessage", () => {});
+
+            await syncinator.init();
+
+            // checking cache, it is updated only on ack
+            assert.deepEqual(syncinator.cacheDump(), [{ ...onlineFile, content: baseContent }]);
+
+            // checking local vault
+            const fileContent = await storage.readText(filepath);
+            assert.equal(fileContent, localContent);
+
+            assert.equal(sendMessage.mock.callCount(), 1);
+            assert.deepEqual(sendMessage.mock.calls[0].arguments[0], {
+                type: MessageType.Chunk,
+                chunks: computeDiff(baseContent, localContent),
+                version: onlineFile.version,
+                fileId: onlineFile.id,
+            } as ChunkMessage);
+
+            assert.equal(journal.get(onlineFile.id)?.pending.length, 1);
+        });
+
+        test("should not send again the pending chunks applied before the ack was lost", async (t) => {
+            const baseContent = "lorem ipsum";
+            const sentContent = "lorem ipsum dolor";
+            const localContent = "lorem ipsum dolor sit";
+            const filepath = "files/offline.md";
+            const sentChunks = computeDiff(baseContent, sentContent);
+
+            syncinator.options.conflictResolution = "remote";
+
+            const onlineFile = await apiClient.createFile(filepath, baseContent);
+            await storage.write(filepath, localContent);
+            journal.set({
+                fileId: onlineFile.id,
+                workspacePath: filepath,
+                version: onlineFile.version,
+                base: baseContent,
+                pending: [
+                    {
+                        type: MessageType.Chunk,
+                        fileId: onlineFile.id,
+                        chunks: sentChunks,
+                        version: onlineFile.version,
+                    },
+                ],
+            });
+
+            // the server applied the pending chunks, the ack never arrived
+            const appliedFile = {
+                ...onlineFile,
+                version: onlineFile.version + 1,
+                hash: await generateSHA256Hash(sentContent),
+            };
+            t.mock.method(apiClient, "fetchFiles", async () => [appliedFile]);
+            t.mock.method(apiClient, "fetchOperations", async () => [
+                {
+                    fileId: onlineFile.id,
+                    version: appliedFile.version,
+                    operation: sentChunks,
+                    createdAt: onlineFile.createdAt,
+                },
+            ]);
+            const sendMessage = t.mock.method(wsClient, "sendMessage", () => {});
+
+            await syncinator.init();
+
+            assert.equal(await storage.readText(filepath), localContent);
+            assert.equal(sendMessage.mock.callCount(), 1);
+            assert.deepEqual(sendMessage.mock.calls[0].arguments[0], {
+                type: MessageType.Chunk,
+                chunks: computeDiff(sentContent, localContent),
+                version: appliedFile.version,
+                fileId: onlineFile.id,
+            } as ChunkMessage);
+        });
+
+        test("should rename files moved while offline", async (t) => {
+            const content = "lorem ipsum";
+            const oldPath = "files/old.md";
+            const newPath = "moved/new.md";
+
+            const onlineFile = await apiClient.createFile(oldPath, content);
+            await storage.write(newPath, content);
+            journal.set({
+                fileId: onlineFile.id,
+                workspacePath: oldPath,
+                version: onlineFile.version,
+                base: content,
+                pending: [],
+            });
+
+            const sendMessage = t.mock.method(wsClient, "sendMessage", () => {});
+
+            await syncinator.init();
+
+            // the file is renamed instead of being uploaded again
+            const files = await apiClient.fetchFiles();
+            assert.equal(files.length, 1);
+            assert.equal(files[0].id, onlineFile.id);
+            assert.equal(files[0].workspacePath, newPath);
+
+            assert.equal(await storage.exists(oldPath), false);
+            assert.equal(journal.get(onlineFile.id)?.workspacePath, newPath);
+
+            assert.deepEqual(sendMessage.mock.calls[0].arguments[0], {
+                type: MessageType.Rename,
+                fileId: onlineFile.id,
+                objectType: "file",
+                workspacePath: oldPath,
+            } as EventMessage);
+        });
+
+        test("should delete files deleted while offline", async (t) => {
+            const content = "lorem ipsum";
+            const deletedPath = "files/deleted.md";
+            const remotePath = "files/remote.md";
+
+            const deletedFile = await apiClient.createFile(deletedPath, content);
+            const remoteFile = await apiClient.createFile(remotePath, content);
+            journal.set({
+                fileId: deletedFile.id,
+                workspacePath: deletedPath,
+                version: deletedFile.version,
+                base: content,
+                pending: [],
+            });
+
+            const sendMessage = t.mock.method(wsClient, "sendMessage", () => {});
+
+            await syncinator.init();
+
+            // the file never synced is new in remote
+            const files = await apiClient.fetchFiles();
+            assert.deepEqual(
+                files.map((file) => file.id),
+                [remoteFile.id],
+            );
+            assert.equal(await storage.exists(deletedPath), false);
+            assert.equal(await storage.exists(remotePath), true);
+
+            assert.equal(journal.get(deletedFile.id), undefined);
+            assert.deepEqual(journal.dumpTombstones(), []);
+
+            assert.strictEqual(sendMessage.mock.callCount(), 1);
+            assert.deepEqual(sendMessage.mock.calls[0].arguments[0], {
+                type: MessageType.Delete,
+                fileId: deletedFile.id,
+                objectType: "file",
+                workspacePath: deletedPath,
+            } as EventMessage);
+        });
+
+        test("should restore files deleted while offline if not confirmed", async (t) => {
+            const content = "lorem ipsum";
+            const filepaths = ["files/first.md", "files/second.md"];
+
+            syncinator.options.massDeletionCount = 1;
+            const confirmDeletion = t.mock.fn(async () => false);
+            syncinator.contracts.confirmDeletion = confirmDeletion;
+
+            for (const filepath of filepaths) {
+                const file = await apiClient.createFile(filepath, content);
+                journal.set({
+                    fileId: file.id,
+                    workspacePath: filepath,
+                    version: file.version,
+                    base: content,
+                    pending: [],
+                });
+            }
+
+            const sendMessage = t.mock.method(wsClient, "sendMessage", () => {});
+
+            await syncinator.init();
+
+            assert.equal((await apiClient.fetchFiles()).length, 2);
+            for (const filepath of filepaths) {
+                assert.equal(await storage.exists(filepath), true);
+            }
+            assert.deepEqual(journal.dumpTombstones(), []);
+            assert.strictEqual(sendMessage.mock.callCount(), 0);
+            assert.deepEqual(confirmDeletion.mock.calls[0].arguments, [
+                { origin: "offline", paths: filepaths },
+            ]);
+        });
+
+        test("should merge disjoint changes with 'three-way' priority", async (t) => {
+            const baseContent = "a\nb\nc\n";
+            const localContent = "local\nb\nc\n";
+            const remoteContent = "a\nb\nremote\n";
+            const mergedContent = "local\nb\nremote\n";
+            const filepath = "files/conflict.md";
+
+            syncinator.options.conflictResolution = "three-way";
+
+            const onlineFile = await apiClient.createFile(filepath, remoteContent);
+            await storage.write(filepath, localContent);
+            journal.set({
+                fileId: onlineFile.id,
+                workspacePath: filepath,
+                version: onlineFile.version,
+                base: baseContent,
+                pending: [],
+            });
+
+            const sendMessage = t.mock.method(wsClient, "sendMessage", () => {});
+            const diffModal = t.mock.method(syncinator.contracts, "diffModal", () => {
+                return { type: "deferred" };
+            });
+
+            await syncinator.init();
+
+            // checking cache, it is updated only on ack
+            assert.deepEqual(syncinator.cacheDump(), [{ ...onlineFile, content: remoteContent }]);
+
+            // checking local vault
+            const fileContent = await storage.readText(filepath);
+            assert.equal(fileContent, mergedContent);
+
+            assert.equal(diffModal.mock.callCount(), 0);
+            assert.equal(sendMessage.mock.callCount(), 1);
+            assert.deepEqual(sendMessage.mock.calls[0].arguments[0], {
+                type: MessageType.Chunk,
+                chunks: computeDiff(remoteContent, mergedContent),
+                version: onlineFile.version,
+                fileId: onlineFile.id,
+            } as ChunkMessage);
+        });
+
+        test("should defer conflict when merge is postponed", async (t) => {
+            const localContent = "local";
+            const remoteContent = "remote";
+            const filepath = "files/conflict.md";
+
+            syncinator.options.conflictResolution = "merge";
+
+            const onlineFile = await apiClient.createFile(filepath, remoteContent);
+            await storage.write(filepath, localContent);
+
+            const sendMessage = t.mock.method(wsClient, "sendMessage", () => {});
+            const diffModal = t.mock.method(syncinator.contracts, "diffModal", () => {
+                return { type: "deferred" };
+            });
+
+            await syncinator.init();
+
+            // both sides are left untouched
+            assert.deepEqual(syncinator.cacheDump(), []);
+            assert.equal(await storage.readText(filepath), localContent);
+            assert.equal(diffModal.mock.callCount(), 1);
+            assert.equal(sendMessage.mock.callCount(), 0);
+
+            assert.deepEqual(
+                syncinator.getPendingConflicts().map((c) => c.fileId),
+                [onlineFile.id],
+            );
+
+            // resolving it later
+            diffModal.mock.mockImplementation(() => {
+                return { type: "keep-remote" };
+            });
+            await syncinator.resolvePendingConflicts();
+
+            assert.deepEqual(syncinator.getPendingConflicts(), []);
+            assert.deepEqual(syncinator.cacheDump(), [{ ...onlineFile, content: remoteContent }]);
+            assert.equal(await storage.readText(filepath), remoteContent);
+            assert.equal(sendMessage.mock.callCount(), 0);
+        });
     });
 
     describe("obsidian events", () => {
@@ -301,6 +743,47 @@ describe("Plugin integration tests", () => {
             } as EventMessage);
         });
 
+        test("should update a binary file on event 'modify'", async (t) => {
+            const content = base64ToArrayBuffer("JVBERi1sb2NhbA==");
+            const newContent = base64ToArrayBuffer("JVBERi1yZW1vdGU=");
+            const filename = "binary.pdf";
+            const filepath = `files/${filename}`;
+
+            await apiClient.createFile(filepath, content);
+            await storage.write(filepath, content);
+
+            await syncinator.init();
+
+            const sendMessage = t.mock.method(wsClient, "sendMessage", () => {});
+
+            await storage.write(filepath, newContent, { force: true });
+            await obsidianEventBus.emit("modify", {
+                file: {
+                    name: filename,
+                    path: filepath,
+                    vault,
+                    parent: null,
+                },
+            });
+
+            await sleep(500);
+
+            const files = await apiClient.fetchFiles();
+            assert.equal(files.length, 1);
+            assert.deepEqual(syncinator.cacheDump(), [{ ...files[0], content: newContent }]);
+
+            const remoteFile = await apiClient.fetchFile(files[0].id);
+            assert.deepEqual(remoteFile.content, newContent);
+
+            assert.strictEqual(sendMessage.mock.callCount(), 1);
+            assert.deepEqual(sendMessage.mock.calls[0].arguments[0], {
+                type: MessageType.Update,
+                objectType: "file",
+                fileId: files[0].id,
+                workspacePath: filepath,
+            } as EventMessage);
+        });
+
         test("should send an event on folder 'create'", async (t) => {
             const filepath = "files/";
 
@@ -321,12 +804,51 @@ describe("Plugin integration tests", () => {
             assert.deepEqual(syncinator.cacheDump(), []);
             assert.equal(await storage.listFiles(), 0);
 
+            const folders = await apiClient.fetchFolders();
+            assert.equal(folders.length, 1);
+
             assert.strictEqual(sendMessage.mock.callCount(), 1);
             assert.deepEqual(sendMessage.mock.calls[0].arguments[0], {
                 type: MessageType.Create,
                 objectType: "folder",
-                fileId: 0,
-                workspacePath: filepath,
+                fileId: folders[0].id,
+                workspacePath: folders[0].workspacePath,
+            } as EventMessage);
+        });
+
+        test("should create the folder at startup when it is not created in remote on 'create'", async (t) => {
+            const filepath = "files/";
+
+            const createFolder = t.mock.method(apiClient, "createFolder", async () => {
+                throw new Error("server unavailable");
+            });
+            const sendMessage = t.mock.method(wsClient, "sendMessage", () => {});
+
+            await storage.write(filepath, "", { isDir: true });
+            await obsidianEventBus.emit("create", {
+                file: {
+                    name: filepath,
+                    path: filepath,
+                    vault,
+                    parent: null,
+                },
+            });
+
+            assert.strictEqual(sendMessage.mock.callCount(), 0);
+            assert.equal((await apiClient.fetchFolders()).length, 0);
+
+            // the next startup pushes it
+            createFolder.mock.restore();
+            await syncinator.init();
+
+            const folders = await apiClient.fetchFolders();
+            assert.equal(folders.length, 1);
+            assert.strictEqual(sendMessage.mock.callCount(), 1);
+            assert.deepEqual(sendMessage.mock.calls[0].arguments[0], {
+                type: MessageType.Create,
+                objectType: "folder",
+                fileId: folders[0].id,
+                workspacePath: folders[0].workspacePath,
             } as EventMessage);
         });
 
@@ -449,6 +971,42 @@ describe("Plugin integration tests", () => {
             }
         });
 
+        test("should restore a folder if its deletion is not confirmed", async (t) => {
+            const filepaths = ["folderToKeep/file1.md", "folderToKeep/file2.md", "file.md"];
+            for (const filepath of filepaths) {
+                await storage.write(filepath, filepath);
+                await apiClient.createFile(filepath, filepath);
+            }
+
+            syncinator.options.massDeletionCount = 1;
+            const confirmDeletion = t.mock.fn(async (_request: DeletionRequest) => false);
+            syncinator.contracts.confirmDeletion = confirmDeletion;
+
+            // loading cache
+            await syncinator.init();
+
+            const sendMessage = t.mock.method(wsClient, "sendMessage", () => {});
+
+            await fs.rm(`${vaultRootDir}/folderToKeep`, { recursive: true });
+            await obsidianEventBus.emit("delete", {
+                file: {
+                    name: "folderToKeep",
+                    path: "folderToKeep",
+                    vault,
+                    parent: null,
+                },
+            });
+
+            const [request] = confirmDeletion.mock.calls[0].arguments;
+            assert.equal(request.origin, "local");
+            assert.deepEqual([...request.paths].sort(), filepaths.slice(0, 2));
+            assert.strictEqual(sendMessage.mock.callCount(), 0);
+            assert.equal((await apiClient.fetchFiles()).length, 3);
+            for (const filepath of filepaths) {
+                assert.equal(await storage.readText(filepath), filepath);
+            }
+        });
+
         test("should rename a file on event 'rename'", async (t) => {
             const content = "lorem ipsum";
             const oldFilename = "rename.md";
@@ -626,6 +1184,12 @@ describe("Plugin integration tests", () => {
             assert.deepEqual(syncinator.cacheDump(), [
                 { ...files[0], version: 1, content: newContent },
             ]);
+
+            const metrics = syncinator.getMetrics();
+            assert.equal(metrics.counters["ws.out.Chunk"], 1);
+            assert.equal(metrics.counters["ws.in.Chunk"], 1);
+            assert.equal(metrics.timings["sync.ackLatency"].count, 1);
+            assert.equal(metrics.timings["sync.reconcile"].count, 1);
         });
 
         test("should create a file on 'create'", async (_t) => {
@@ -651,15 +1215,44 @@ describe("Plugin integration tests", () => {
             });
         });
 
+        test("should replace a binary file on 'update'", async (_t) => {
+            const content = base64ToArrayBuffer("JVBERi1sb2NhbA==");
+            const newContent = base64ToArrayBuffer("JVBERi1yZW1vdGU=");
+            const filepath = "files/binary.pdf";
+
+            const file = await apiClient.createFile(filepath, content);
+            await storage.write(filepath, content);
+
+            // loading cache
+            await syncinator.init();
+
+            const updatedFile = await apiClient.updateFileContent(file.id, filepath, newContent);
+
+            await syncinator.handleEventMessage({
+                type: MessageType.Update,
+                fileId: file.id,
+                objectType: "file",
+                workspacePath: filepath,
+            });
+
+            assert.deepEqual(syncinator.cacheDump(), [{ ...updatedFile, content: newContent }]);
+
+            await assertEventually(async () => {
+                const diskContent = await storage.readBinary(filepath);
+                assert.deepEqual(diskContent, newContent);
+            });
+        });
+
         test("should create a folder on 'create'", async (_t) => {
             const folder = "files/";
 
             const exists = await storage.exists(folder);
             assert.equal(exists, false);
 
+            const onlineFolder = await apiClient.createFolder(folder);
             await syncinator.handleEventMessage({
                 type: MessageType.Create,
-                fileId: 0, // not used yet
+                fileId: onlineFolder.id,
                 objectType: "folder",
                 workspacePath: folder,
             });
@@ -853,6 +1446,264 @@ describe("Plugin integration tests", () => {
         });
     });
 
+    describe("pause", () => {
+        test("should ignore local events while paused", async () => {
+            const content = "lorem ipsum";
+            const filepath = "files/paused.md";
+
+            await syncinator.init();
+            syncinator.pause();
+            assert.equal(syncinator.getStatus().state, "paused");
+
+            await storage.write(filepath, content);
+            await obsidianEventBus.emit("create", {
+                file: {
+                    name: "paused.md",
+                    path: filepath,
+                    vault,
+                    parent: null,
+                },
+            });
+
+            const files = await apiClient.fetchFiles();
+            assert.equal(files.length, 0);
+            assert.deepEqual(syncinator.cacheDump(), []);
+        });
+
+        test("should reconcile the changes made while paused on resume", async (t) => {
+            const content = "lorem ipsum";
+            const localPath = "files/local.md";
+            const deletedPath = "files/deleted.md";
+            const remotePath = "files/remote.md";
+
+            await apiClient.createFile(deletedPath, content);
+            await syncinator.init();
+            syncinator.pause();
+
+            const sendMessage = t.mock.method(wsClient, "sendMessage", () => {});
+
+            // a local creation and a remote deletion, both missed while paused
+            await storage.write(localPath, content);
+            const files = await apiClient.fetchFiles();
+            await apiClient.deleteFile(files[0].id);
+            await apiClient.createFile(remotePath, content);
+
+            await syncinator.resume();
+
+            assert.equal(await storage.exists(deletedPath), false);
+            assert.equal(await storage.exists(remotePath), true);
+
+            const remoteFiles = await apiClient.fetchFiles();
+            assert.deepEqual(remoteFiles.map((file) => file.workspacePath).sort(), [
+                localPath,
+                remotePath,
+            ]);
+            assert.equal(syncinator.cacheDump().length, 2);
+            assert.strictEqual(sendMessage.mock.callCount(), 1);
+        });
+
+        test("should delete in remote the folders deleted while paused", async (t) => {
+            const folder = "empty";
+
+            const onlineFolder = await apiClient.createFolder(folder);
+            await syncinator.init();
+            assert.equal(await storage.exists(folder), true);
+            syncinator.pause();
+
+            const sendMessage = t.mock.method(wsClient, "sendMessage", () => {});
+
+            await storage.delete(folder, { force: true });
+            await obsidianEventBus.emit("delete", {
+                file: {
+                    name: folder,
+                    path: folder,
+                    vault,
+                    parent: null,
+                },
+            });
+
+            await syncinator.resume();
+
+            assert.equal(await storage.exists(folder), false);
+            const folders = await apiClient.fetchFolders();
+            assert.deepEqual(folders, []);
+            assert.strictEqual(sendMessage.mock.callCount(), 1);
+            assert.deepEqual(sendMessage.mock.calls[0].arguments[0], {
+                type: MessageType.Delete,
+                fileId: onlineFolder.id,
+                objectType: "folder",
+                workspacePath: folder,
+            } as EventMessage);
+        });
+    });
+
+    describe("reconciliation plan", () => {
+        test("should plan the reconciliation without applying it", async (t) => {
+            const content = "lorem ipsum";
+
+            await apiClient.createFile("files/remote.md", content);
+            await apiClient.createFile("files/conflict.md", content);
+            await storage.write("files/conflict.md", "local content");
+            await storage.write("files/local.md", content);
+
+            const sendMessage = t.mock.method(wsClient, "sendMessage", () => {});
+
+            const steps = await syncinator.planReconciliation();
+
+            assert.deepEqual(
+                steps.sort((a, b) => a.path.localeCompare(b.path)),
+                [
+                    { action: "overwrite", path: "files/conflict.md", detail: "remote wins" },
+                    { action: "upload", path: "files/local.md" },
+                    { action: "download", path: "files/remote.md" },
+                ],
+            );
+
+            assert.equal(await storage.exists("files/remote.md"), false);
+            assert.equal(await storage.readText("files/conflict.md"), "local content");
+            assert.equal((await apiClient.fetchFiles()).length, 2);
+            assert.strictEqual(sendMessage.mock.callCount(), 0);
+        });
+
+        test("should apply the confirmed plan", async (t) => {
+            const content = "lorem ipsum";
+
+            await apiClient.createFile("files/remote.md", content);
+            await apiClient.createFile("files/conflict.md", content);
+            await storage.write("files/conflict.md", "local content");
+            const confirmPlan = t.mock.fn(async (_steps: ReconcileStep[]) => true);
+            syncinator.contracts.confirmPlan = confirmPlan;
+            t.mock.method(wsClient, "sendMessage", () => {});
+
+            await syncinator.init();
+
+            assert.strictEqual(confirmPlan.mock.callCount(), 1);
+            assert.deepEqual(
+                confirmPlan.mock.calls[0].arguments[0].sort((a, b) => a.path.localeCompare(b.path)),
+                [
+                    { action: "overwrite", path: "files/conflict.md", detail: "remote wins" },
+                    { action: "download", path: "files/remote.md" },
+                ],
+            );
+            assert.equal(await storage.readText("files/conflict.md"), content);
+            assert.equal(await storage.readText("files/remote.md"), content);
+            assert.equal(syncinator.cacheDump().length, 2);
+        });
+
+        test("should pause the sync if the plan is not confirmed", async (t) => {
+            const content = "lorem ipsum";
+
+            await apiClient.createFile("files/remote.md", content);
+            const confirmPlan = t.mock.fn(async (_steps: ReconcileStep[]) => false);
+            syncinator.contracts.confirmPlan = confirmPlan;
+
+            await syncinator.init();
+
+            assert.strictEqual(confirmPlan.mock.callCount(), 1);
+            assert.equal(syncinator.isPaused(), true);
+            assert.equal(await storage.exists("files/remote.md"), false);
+
+            await syncinator.resume();
+            assert.equal(await storage.exists("files/remote.md"), true);
+        });
+    });
+
+    describe("resync", () => {
+        test("should rebuild the state and report a summary", async (t) => {
+            const content = "lorem ipsum";
+
+            const conflictFile = await apiClient.createFile("files/conflict.md", content);
+            await apiClient.createFile("files/synced.md", content);
+            await syncinator.init();
+
+            t.mock.method(wsClient, "sendMessage", () => {});
+
+            // the local state drifted from the cached one
+            await storage.write("files/conflict.md", "local content", { force: true });
+            await storage.write("files/local.md", content);
+            await apiClient.createFile("files/remote.md", content);
+
+            const summary = await syncinator.resync("remote");
+
+            assert.deepEqual(summary, {
+                created: 2,
+                updated: 1,
+                conflicted: 0,
+                skipped: 1,
+                failed: 0,
+            });
+            assert.equal(await storage.readText("files/conflict.md"), content);
+            assert.equal(await storage.exists("files/remote.md"), true);
+
+            const files = await apiClient.fetchFiles();
+            assert.equal(files.length, 4);
+            assert.equal(syncinator.cacheDump().length, 4);
+            assert.ok(syncinator.cacheDump().some((file) => file.id === conflictFile.id));
+        });
+        test("should drop the pending conflicts solved by the resync", async (t) => {
+            const filepath = "files/conflict.md";
+
+            syncinator.options.conflictResolution = "merge";
+            await apiClient.createFile(filepath, "remote");
+            await storage.write(filepath, "local");
+
+            t.mock.method(wsClient, "sendMessage", () => {});
+            t.mock.method(syncinator.contracts, "diffModal", () => {
+                return { type: "deferred" };
+            });
+
+            await syncinator.init();
+            assert.equal(syncinator.getPendingConflicts().length, 1);
+
+            const conflictsUpdated = t.mock.fn(async (_conflicts: PendingConflict[]) => {});
+            syncinator.contracts.conflictEventBus.on("conflicts-list-updated", conflictsUpdated);
+            await syncinator.resync("remote");
+
+            assert.deepEqual(syncinator.getPendingConflicts(), []);
+            assert.deepEqual(conflictsUpdated.mock.calls.at(-1)?.arguments[0], []);
+            assert.equal(await storage.readText(filepath), "remote");
+        });
+    });
+
+    describe("integrity check", () => {
+        test("should report and repair the differences with remote", async (t) => {
+            const content = "lorem ipsum";
+
+            const drifted = await apiClient.createFile("files/drifted.md", content);
+            const missing = await apiClient.createFile("files/missing.md", content);
+            await apiClient.createFile("files/synced.md", content);
+            await syncinator.init();
+
+            t.mock.method(wsClient, "sendMessage", () => {});
+
+            await storage.write("files/drifted.md", "local content", { force: true });
+            await storage.delete("files/missing.md", { force: true });
+            await storage.write("files/extra.md", content);
+
+            const issues = await syncinator.checkIntegrity();
+
+            assert.deepEqual(
+                issues.map(({ kind, path }) => ({ kind, path })),
+                [
+                    { kind: "drift", path: "files/drifted.md" },
+                    { kind: "missing", path: "files/missing.md" },
+                    { kind: "extra", path: "files/extra.md" },
+                ],
+            );
+            assert.equal(issues[0].fileId, drifted.id);
+            assert.equal(issues[1].fileId, missing.id);
+
+            await syncinator.repairIntegrityIssue(issues[0], "download");
+            await syncinator.repairIntegrityIssue(issues[1], "download");
+            await syncinator.repairIntegrityIssue(issues[2], "delete");
+
+            assert.equal(await storage.readText("files/drifted.md"), content);
+            assert.equal(await storage.readText("files/missing.md"), content);
+            assert.equal(await storage.exists("files/extra.md"), false);
+            assert.deepEqual(await syncinator.checkIntegrity(), []);
+        });
+    });
+
     describe("snapshots events", () => {
         test("should load snapshots on event", async () => {
             const filepath = "files/file.md";
@@ -902,7 +1753,7 @@ describe("Plugin integration tests", () => {
 
             const sendMessage = t.mock.method(wsClient, "sendMessage", () => {});
             const diffModal = t.mock.method(syncinator.contracts, "diffModal", () => {
-                return mergedContent;
+                return { type: "merged", content: mergedContent };
             });
 
             snapshotEventBus.emit("snapshot-selected", {
@@ -999,14 +1850,24 @@ describe("concurrent modifications", () => {
             wsClient1,
             {
                 diffModal: async () => {
-                    return "";
+                    return { type: "deferred" };
                 },
+                confirmDeletion: async () => true,
                 snapshotEventBus: new EventBus<SnapshotEventMap>(),
                 obsidianEventBus: obsidianEventBus1,
                 cursorEventBus: new EventBus<CursorEventMap>(),
+                conflictEventBus: new EventBus<ConflictEventMap>(),
+                journal: new Journal(),
             },
             {
                 conflictResolution: "remote",
+                deviceName: "test",
+                lazyDownloadThreshold: 0,
+                prefetchBudget: 0,
+                include: [],
+                exclude: [],
+                massDeletionCount: 0,
+                massDeletionPercentage: 0,
             },
         );
 
@@ -1016,14 +1877,24 @@ describe("concurrent modifications", () => {
             wsClient2,
             {
                 diffModal: async () => {
-                    return "";
+                    return { type: "deferred" };
                 },
+                confirmDeletion: async () => true,
                 snapshotEventBus: new EventBus<SnapshotEventMap>(),
                 obsidianEventBus: obsidianEventBus2,
                 cursorEventBus: new EventBus<CursorEventMap>(),
+                conflictEventBus: new EventBus<ConflictEventMap>(),
+                journal: new Journal(),
             },
             {
                 conflictResolution: "remote",
+                deviceName: "test",
+                lazyDownloadThreshold: 0,
+                prefetchBudget: 0,
+                include: [],
+                exclude: [],
+                massDeletionCount: 0,
+                massDeletionPercentage: 0,
             },
         );
     });
@@ -1,7 +1,8 @@
 import type { TAbstractFile } from "obsidian";
 import path from "path-browserify";
-import { log } from "src/logger/logger";
-import type { ApiClient, File, FileWithContent } from "./api/api";
+import { log as rootLog } from "src/logger/logger";
+import type { ActivityEntry, ActivityLog, ActivityOperation } from "./activity";
+import type { ApiClient, File, FileWithContent, Folder, Operation, UploadSession } from "./api/api";
 import {
     type ChunkMessage,
     type CursorMessage,
@@ -10,6 +11,7 @@ import {
     type WsClient,
 } from "./api/ws";
 import { FileCache } from "./cache";
+import type { ConfigSync } from "./config/configSync";
 import {
     type DiffChunk,
     applyDiff,
@@ -17,33 +19,110 @@ import {
     computeDiff,
     invertDiff,
     transform,
+    transformMultiple,
 } from "./diff/diff";
+import { joinMergeChunks, merge3 } from "./diff/merge";
+import type { Journal, JournalEntry } from "./journal";
 import { type Deque, DequeRegistry } from "./messageQueue";
-import type { FileDiff } from "./modals/conflict";
+import { Metrics, type MetricsSnapshot } from "./metrics";
+import type { FileDiff, MergeOutcome } from "./modals/conflict";
+import type { DeletionRequest } from "./modals/deletion";
+import type { IntegrityIssue, RepairAction } from "./modals/integrity";
+import type { ReconcileStep } from "./modals/plan";
+import {
+    type FileAction,
+    type FileFacts,
+    describeFileAction,
+    planFileAction,
+} from "./reconciliation";
+import { isText } from "./storage/filetype";
 import type { Disk } from "./storage/storage";
+import type { Trash, TrashReason } from "./trash";
 import { shallowEqualStrict } from "./utils/comparison";
+import { conflictCopyPath } from "./utils/conflictPath";
 import { generateSHA256Hash } from "./utils/crypto";
 import type {
+    ConflictEventMap,
+    ConnectionState,
     CursorEventMap,
     CursorPosition,
     EventBus,
     ObsidianEventMap,
+    PendingConflict,
     Snapshot,
     SnapshotEventMap,
+    SyncStatus,
 } from "./utils/eventBus";
+import { SyncFilter } from "./utils/glob";
 import { isTextMime } from "./utils/mime";
 import { sleep } from "./utils/sleep";
 
-export type ConflictResolution = "remote" | "local" | "merge";
+const log = rootLog.child("sync");
+
+// files larger than this are sent with a resumable upload
+const RESUMABLE_UPLOAD_THRESHOLD = 8 * 1024 * 1024;
+
+export type ConflictResolution = "remote" | "local" | "merge" | "three-way" | "keep-both";
+
+// what the reconciliation did to a file, skipped if it was already in sync
+type ReconcileOutcome = "created" | "updated" | "conflicted" | "skipped";
+
+// failed counts the files whose reconciliation threw an error
+export type SyncSummary = Record<ReconcileOutcome | "failed", number>;
+
+// the reconciliation of the remote files, planned before applying it
+interface ReconcilePlan {
+    // the synced remote files
+    files: File[];
+    // new local path of the files renamed while offline
+    renames: Map<File, string>;
+    // the synced files deleted while offline, without a tombstone yet
+    deletions: File[];
+    facts: Map<number, FileFacts>;
+    actions: Map<number, FileAction>;
+    // the local files unknown to remote
+    uploads: string[];
+}
+
 export interface Options {
     conflictResolution: ConflictResolution;
+    // used to name the conflict copies
+    deviceName: string;
+    // binaries larger than this (in bytes) are downloaded on demand, 0 disables it
+    lazyDownloadThreshold: number;
+    // bytes of on demand files downloaded in background after the startup
+    prefetchBudget: number;
+    // glob rules selecting the synced paths
+    include: string[];
+    exclude: string[];
+    // deletions of more files than this, or of more than this percentage of
+    // the vault, must be confirmed. 0 disables the limit
+    massDeletionCount: number;
+    massDeletionPercentage: number;
 }
 
 interface Contracts {
-    diffModal(filename: string, local: FileDiff, remote: FileDiff): Promise<string>;
+    diffModal(
+        filename: string,
+        local: FileDiff,
+        remote: FileDiff,
+        base?: string | null,
+    ): Promise<MergeOutcome>;
+    // resolves with true if the deletion of many files is confirmed
+    confirmDeletion(request: DeletionRequest): Promise<boolean>;
     snapshotEventBus: EventBus<SnapshotEventMap>;
     obsidianEventBus: EventBus<ObsidianEventMap>;
     cursorEventBus: EventBus<CursorEventMap>;
+    conflictEventBus: EventBus<ConflictEventMap>;
+    journal: Journal;
+    // events on the configuration directory are handled by it, when enabled
+    configSync?: ConfigSync;
+    // keeps the local content removed or overwritten by remote, when enabled
+    trash?: Trash;
+    // when set, the reconciliation at startup is applied only if the plan is confirmed
+    confirmPlan?(steps: ReconcileStep[]): Promise<boolean>;
+    // records what is done to every file, when enabled
+    activityLog?: ActivityLog;
 }
 
 export class Syncinator {
@@ -52,10 +131,37 @@ export class Syncinator {
     private apiClient: ApiClient;
     private wsClient: WsClient;
     private messageQueueRegistry = new DequeRegistry<number, ChunkMessage>();
-    options: Options = { conflictResolution: "remote" };
+    options: Options = {
+        conflictResolution: "remote",
+        deviceName: "local",
+        lazyDownloadThreshold: 0,
+        prefetchBudget: 0,
+        include: [],
+        exclude: [],
+        massDeletionCount: 0,
+        massDeletionPercentage: 0,
+    };
     contracts: Contracts;
     private modifyPendingModifications: Map<number, Promise<void>> = new Map();
     private onChunkPendingModifications: Map<number, Promise<void>> = new Map();
+    private pendingConflicts: Map<number, PendingConflict> = new Map();
+    // merge modals are opened one at a time
+    private modalQueue: Promise<unknown> = Promise.resolve();
+    private uploads: Map<string, Promise<File>> = new Map();
+    private downloads: Map<number, Promise<void>> = new Map();
+    private filter: SyncFilter;
+    // old path to new path of the files renamed while offline, detected at startup
+    private offlineRenames: Map<string, string> = new Map();
+    // the local events are not synced while paused, the changes are reconciled on resume
+    private paused = false;
+    // paths of the binaries modified while paused, their local version wins on resume
+    private pausedModifications: Set<string> = new Set();
+    // paths of the folders deleted while paused, they are deleted in remote on resume
+    private pausedFolderDeletions: Set<string> = new Set();
+    private connectionState: ConnectionState = "offline";
+    private metrics = new Metrics();
+    // when the chunk messages were sent, to measure the ack latency
+    private chunkSentAt: WeakMap<ChunkMessage, number> = new WeakMap();
 
     constructor(
         storage: Disk,
@@ -69,10 +175,26 @@ export class Syncinator {
         this.wsClient = wsClient;
         this.contracts = contracts;
         this.options = opts;
+        this.filter = new SyncFilter(opts.include, opts.exclude);
 
+        this.apiClient.useMetrics(this.metrics);
+        this.contracts.configSync?.useDeletionGuard(async (paths, total) =>
+            this.allowDeletion("local", paths, total),
+        );
+        this.wsClient.useMetrics(this.metrics);
         this.wsClient.onChunkMessage(this.handleChunkMessage.bind(this));
         this.wsClient.onEventMessage(this.handleEventMessage.bind(this));
         this.wsClient.onCursorMessage(this.handleCursorMessage.bind(this));
+        this.wsClient.onOpen(() => {
+            this.connectionState = "connected";
+            this.resumeUploads();
+        });
+        this.wsClient.onClose(() => {
+            this.connectionState = "reconnecting";
+        });
+        this.wsClient.onReconnectFailed(() => {
+            this.connectionState = "offline";
+        });
         this.contracts.cursorEventBus.on("local-cursor-update", this.sendCursorPosition.bind(this));
         this.wsClient.connect();
 
@@ -80,193 +202,1426 @@ export class Syncinator {
         this.contracts.obsidianEventBus.on("delete", this.delete.bind(this));
         this.contracts.obsidianEventBus.on("modify", this.modify.bind(this));
         this.contracts.obsidianEventBus.on("rename", this.rename.bind(this));
+        this.contracts.obsidianEventBus.on("file-open", this.fileOpen.bind(this));
+
+        this.contracts.snapshotEventBus.on(
+            "file-focus-change",
+            this.snapshotFileChanged.bind(this),
+        );
+        this.contracts.snapshotEventBus.on("snapshot-selected", this.snapshotSelected.bind(this));
+
+        this.contracts.conflictEventBus.on("conflict-resolve", async ({ fileId, strategy }) => {
+            await this.resolvePendingConflicts(strategy, fileId === null ? undefined : [fileId]);
+        });
+    }
+
+    async init() {
+        await this.contracts.journal.load();
+
+        let plan: ReconcilePlan | undefined;
+        if (this.contracts.confirmPlan) {
+            const confirmed = await this.confirmReconciliation(this.contracts.confirmPlan);
+            if (!confirmed) {
+                log.warn("reconciliation not confirmed, pausing the sync");
+                this.pause();
+                return;
+            }
+            plan = confirmed;
+        }
+        await this.reconcile(plan);
+    }
+
+    // returns the plan to apply if it is confirmed, null otherwise
+    private async confirmReconciliation(
+        confirmPlan: (steps: ReconcileStep[]) => Promise<boolean>,
+    ): Promise<ReconcilePlan | null> {
+        try {
+            const plan = await this.planRemoteFiles(
+                await this.fetchSyncedFiles(),
+                this.options.conflictResolution,
+            );
+            const steps = planSteps(plan);
+            if (steps.length === 0) {
+                return plan;
+            }
+
+            log.info(`asking confirmation to apply ${steps.length} reconciliation steps`);
+            return (await this.queueModal(() => confirmPlan(steps))) ? plan : null;
+        } catch (error) {
+            log.error("error while planning the reconciliation", error);
+            return null;
+        }
+    }
+
+    /**
+     * Computes what the reconciliation of the local files with remote is going
+     * to do, without applying anything. The mass deletion limits and the offline
+     * changes that can't be rebased are only checked while applying it.
+     */
+    async planReconciliation(): Promise<ReconcileStep[]> {
+        return planSteps(
+            await this.planRemoteFiles(
+                await this.fetchSyncedFiles(),
+                this.options.conflictResolution,
+            ),
+        );
+    }
+
+    private async fetchSyncedFiles(): Promise<File[]> {
+        const remoteFiles = await this.apiClient.fetchFiles();
+        log.info(`fetched ${remoteFiles.length} files from remote`);
+        log.debug(remoteFiles);
+
+        return remoteFiles.filter((file) => this.filter.isSynced(file.workspacePath));
+    }
+
+    /**
+     * Plans the reconciliation of the remote files, every local file is hashed
+     * once here and the result is applied as it is
+     */
+    private async planRemoteFiles(
+        files: File[],
+        strategy: ConflictResolution,
+    ): Promise<ReconcilePlan> {
+        const renames = await this.matchOfflineRenames(files);
+        const deletions = await this.matchOfflineDeletions(
+            files.filter((file) => !renames.has(file)),
+        );
+        const deleted = new Set(deletions.map((file) => file.id));
+
+        const plan: ReconcilePlan = {
+            files,
+            renames,
+            deletions,
+            facts: new Map(),
+            actions: new Map(),
+            uploads: [],
+        };
+        const remotePaths = new Set<string>();
+        for (const file of files) {
+            const filepath = renames.get(file) ?? file.workspacePath;
+            remotePaths.add(filepath);
+
+            const entry = this.contracts.journal.get(file.id);
+            const deletedVersion =
+                this.contracts.journal.getTombstone(file.id)?.version ??
+                (deleted.has(file.id) ? (entry?.version ?? file.version) : undefined);
+            const facts = await this.fileFacts(file, filepath, strategy, deletedVersion);
+            plan.facts.set(file.id, facts);
+            plan.actions.set(file.id, planFileAction(facts));
+        }
+
+        for (const local of await this.storage.listFiles()) {
+            if (this.filter.isSynced(local.path) && !remotePaths.has(local.path)) {
+                plan.uploads.push(local.path);
+            }
+        }
+
+        return plan;
+    }
+
+    private async fileFacts(
+        file: File,
+        filepath: string,
+        strategy: ConflictResolution,
+        deletedVersion?: number,
+    ): Promise<FileFacts> {
+        const localHash = (await this.storage.exists(filepath))
+            ? await generateSHA256Hash(await this.storage.read(filepath))
+            : undefined;
+
+        return {
+            file,
+            localHash,
+            lazy: this.isLazy(file),
+            entry: this.contracts.journal.get(file.id),
+            deletedVersion,
+            strategy,
+        };
+    }
+
+    /**
+     * Aligns the local vault with remote, publishing the local changes made
+     * while the plugin was not syncing
+     */
+    private async reconcile(plan?: ReconcilePlan) {
+        const stopTimer = this.metrics.startTimer("sync.reconcile");
+        // the files are fetched first, their offline renames reveal the renamed folders
+        await this.fetchRemoteFiles(this.options.conflictResolution, plan);
+        // before fetching the folders, otherwise they are created again
+        await this.deletePausedFolders();
+        await this.fetchRemoteFolders();
+        await this.pushLocalFolders();
+        await this.pushLocalFiles();
+        this.offlineRenames.clear();
+        stopTimer();
+        this.prefetch();
+    }
+
+    getMetrics(): MetricsSnapshot {
+        return this.metrics.snapshot();
+    }
+
+    resetMetrics() {
+        this.metrics.reset();
+    }
+
+    isPaused(): boolean {
+        return this.paused;
+    }
+
+    getStatus(): SyncStatus {
+        return {
+            state: this.paused ? "paused" : this.connectionState,
+            pending: this.wsClient.getRetryQueueStatus().queueLength,
+        };
+    }
+
+    /**
+     * Stops syncing, the connection is closed and the local changes are kept
+     * until resume
+     */
+    pause() {
+        if (this.paused) {
+            return;
+        }
+
+        log.info("sync paused");
+        this.paused = true;
+        this.wsClient.close(true);
+    }
+
+    /**
+     * Connects again, then publishes the local changes made while paused and
+     * applies the remote ones
+     */
+    async resume() {
+        if (!this.paused) {
+            return;
+        }
+
+        log.info("sync resumed");
+        this.paused = false;
+        this.wsClient.connect();
+
+        // the text changes are rebased on the journal by the reconciliation,
+        // the binaries can't be, so they are published first
+        for (const filepath of this.pausedModifications) {
+            const cachedFile = this.fileCache.getByPath(filepath);
+            if (
+                cachedFile &&
+                !this.fileCache.isPlaceholder(cachedFile.id) &&
+                !isTextMime(cachedFile.mimeType) &&
+                (await this.storage.exists(filepath))
+            ) {
+                await this.modifyBinary(cachedFile);
+            }
+        }
+        this.pausedModifications.clear();
+
+        await this.reconcile();
+    }
+
+    /**
+     * Rebuilds the sync state from scratch: the cache, the journal and the queued
+     * chunks are dropped, then the local and remote files are reconciled again
+     * solving every difference with the given strategy. Without the journal no
+     * file is deleted, the ones missing on a side are created again. The
+     * pending conflicts are dropped, the ones still there are found again.
+     */
+    async resync(strategy: ConflictResolution): Promise<SyncSummary> {
+        log.info(`full resync, solving the conflicts with "${strategy}"`);
+        this.fileCache.clear();
+        this.messageQueueRegistry.clear();
+        this.contracts.journal.clear();
+        // the deferred conflicts are detected again by the reconciliation
+        this.pendingConflicts.clear();
+        this.notifyPendingConflicts();
+
+        const fetched = await this.fetchRemoteFiles(strategy);
+        await this.fetchRemoteFolders();
+        await this.pushLocalFolders();
+        // the summary includes the large files uploaded in background
+        const pushed = await this.pushLocalFiles(true);
+        this.offlineRenames.clear();
+
+        const summary = mergeSummaries(fetched, pushed);
+        log.info("full resync completed", summary);
+        return summary;
+    }
+
+    /**
+     * Publish to the server the local folders unknown to remote. The folders
+     * containing synced files are implied by them, so only the others are sent.
+     */
+    async pushLocalFolders() {
+        try {
+            const folders = await this.storage.listFolders();
+            // parents are created before their children
+            folders.sort((a, b) => a.path.localeCompare(b.path));
+            const files = (await this.storage.listFiles()).filter((file) =>
+                this.filter.isSynced(file.path),
+            );
+
+            for (const folder of folders) {
+                if (
+                    !this.filter.isFolderSynced(folder.path) ||
+                    this.fileCache.hasFolderByPath(folder.path) ||
+                    files.some((file) => file.path.startsWith(folder.path + path.sep))
+                ) {
+                    continue;
+                }
+
+                try {
+                    await this.pushLocalFolder(folder.path);
+                } catch (error) {
+                    log.error(`error while pushing folder "${folder.path}"`, error);
+                }
+            }
+        } catch (error) {
+            log.error("error while pushing local folders", error);
+        }
+    }
+
+    private async pushLocalFolder(folderpath: string) {
+        const folder = await this.apiClient.createFolder(folderpath);
+        this.fileCache.createFolder(folder);
+
+        const msg: EventMessage = {
+            type: MessageType.Create,
+            fileId: folder.id,
+            objectType: "folder",
+            workspacePath: folder.workspacePath,
+        };
+        this.wsClient.sendMessage(msg);
+    }
+
+    /**
+     * Publish to the server the local unsynchronized files. The large ones are
+     * uploaded in background, they are counted only if it waits for the uploads.
+     */
+    async pushLocalFiles(waitForUploads = false): Promise<SyncSummary> {
+        try {
+            const files = await this.storage.listFiles();
+            const uploads: Promise<ReconcileOutcome>[] = [];
+
+            const filesToPush = files.map(async (file): Promise<ReconcileOutcome | undefined> => {
+                if (
+                    !this.filter.isSynced(file.path) ||
+                    this.fileCache.hasByPath(file.path) ||
+                    this.hasPendingConflict(file.path)
+                ) {
+                    return;
+                }
+
+                const currentContent = await this.storage.read(file.path);
+                if (byteLength(currentContent) >= RESUMABLE_UPLOAD_THRESHOLD) {
+                    // large files are uploaded in background, not to block the startup
+                    uploads.push(
+                        this.pushLocalFile(file.path, currentContent).then(
+                            () => "created",
+                            (error) => {
+                                log.error(`error while uploading "${file.path}"`, error);
+                                throw error;
+                            },
+                        ),
+                    );
+                    return;
+                }
+                await this.pushLocalFile(file.path, currentContent);
+                return "created";
+            });
+
+            const summary = summarize(await Promise.allSettled(filesToPush));
+            if (uploads.length === 0) {
+                return summary;
+            }
+
+            const uploaded = Promise.allSettled(uploads).then((outcomes) => {
+                const uploadSummary = summarize(outcomes);
+                if (uploadSummary.failed > 0) {
+                    log.error(
+                        `${uploadSummary.failed} of ${uploads.length} large files not uploaded`,
+                    );
+                } else {
+                    log.info(`${uploads.length} large files uploaded`);
+                }
+                return uploadSummary;
+            });
+            return waitForUploads ? mergeSummaries(summary, await uploaded) : summary;
+        } catch (error) {
+            log.error("error while pushing local files", error);
+            return summarize([]);
+        }
+    }
+
+    private async pushLocalFile(filepath: string, content: string | ArrayBuffer) {
+        let fileApi: File;
+        try {
+            fileApi = await this.createRemoteFile(filepath, content);
+        } catch (error) {
+            this.recordActivity("outgoing", "create", filepath, error);
+            throw error;
+        }
+        this.fileCache.create({ ...fileApi, content });
+        this.recordJournal(fileApi.id);
+
+        const msg: EventMessage = {
+            type: MessageType.Create,
+            fileId: fileApi.id,
+            objectType: "file",
+            workspacePath: fileApi.workspacePath,
+        };
+        this.wsClient.sendMessage(msg);
+        this.recordActivity(
+            "outgoing",
+            "create",
+            fileApi.workspacePath,
+            undefined,
+            fileApi.version,
+        );
+    }
+
+    /**
+     * Creates the file in remote, large files are sent with a resumable upload
+     */
+    private async createRemoteFile(filepath: string, content: string | ArrayBuffer): Promise<File> {
+        if (byteLength(content) < RESUMABLE_UPLOAD_THRESHOLD) {
+            return await this.apiClient.createFile(filepath, content);
+        }
+
+        const running = this.uploads.get(filepath);
+        if (running) {
+            return await running;
+        }
+
+        const upload = this.resumableUpload(filepath, content).finally(() => {
+            this.uploads.delete(filepath);
+        });
+        this.uploads.set(filepath, upload);
+        return await upload;
+    }
+
+    private async resumableUpload(filepath: string, content: string | ArrayBuffer): Promise<File> {
+        const bytes =
+            typeof content === "string"
+                ? new TextEncoder().encode(content)
+                : new Uint8Array(content);
+        const hash = await generateSHA256Hash(content);
+
+        const session =
+            (await this.restoreUpload(filepath, hash)) ??
+            (await this.apiClient.createUpload(filepath, bytes.byteLength, hash));
+        this.contracts.journal.setUpload(session);
+
+        log.info(`uploading "${filepath}" from byte ${session.offset} of ${session.size}`);
+        const fileApi = await this.apiClient.upload(session, bytes, (progress) => {
+            log.debug(
+                `uploading "${filepath}": ${Math.floor((progress.offset * 100) / progress.size)}%`,
+            );
+            this.contracts.journal.setUpload(progress);
+        });
+
+        this.contracts.journal.deleteUpload(filepath);
+        return fileApi;
+    }
+
+    // returns the upload session stored in the journal if it can be resumed
+    private async restoreUpload(filepath: string, hash: string): Promise<UploadSession | null> {
+        const stored = this.contracts.journal.getUpload(filepath);
+        if (!stored) {
+            return null;
+        }
+
+        if (stored.hash !== hash) {
+            log.debug(`"${filepath}" changed since the upload started, restarting it`);
+            this.contracts.journal.deleteUpload(filepath);
+            return null;
+        }
+
+        try {
+            return await this.apiClient.fetchUpload(stored.id);
+        } catch (error) {
+            log.warn(`upload of "${filepath}" can't be resumed, restarting it`, error);
+            this.contracts.journal.deleteUpload(filepath);
+            return null;
+        }
+    }
+
+    /**
+     * Resumes the uploads interrupted by a connection error
+     */
+    async resumeUploads() {
+        const uploads = this.contracts.journal.dumpUploads().map(async ({ workspacePath }) => {
+            if (this.uploads.has(workspacePath) || this.fileCache.hasByPath(workspacePath)) {
+                return;
+            }
+
+            if (
+                !this.filter.isSynced(workspacePath) ||
+                !(await this.storage.exists(workspacePath))
+            ) {
+                this.contracts.journal.deleteUpload(workspacePath);
+                return;
+            }
+
+            try {
+                const content = await this.storage.read(workspacePath);
+                await this.pushLocalFile(workspacePath, content);
+            } catch (error) {
+                log.error(`error while resuming upload of "${workspacePath}"`, error);
+            }
+        });
+
+        await Promise.allSettled(uploads);
+    }
+
+    /**
+     * Creates locally the remote folders, empty ones included
+     */
+    async fetchRemoteFolders() {
+        try {
+            const remoteFolders = await this.apiClient.fetchFolders();
+            log.info(`fetched ${remoteFolders.length} folders from remote`);
+
+            const folders = remoteFolders
+                .filter((folder) => this.filter.isFolderSynced(folder.workspacePath))
+                .sort((a, b) => a.workspacePath.localeCompare(b.workspacePath));
+            const remotePaths = new Set(folders.map((folder) => folder.workspacePath));
+            const folderRenames = new Map<string, string>();
+
+            for (const folder of folders) {
+                try {
+                    const newPath = this.offlineFolderRename(folder.workspacePath, folderRenames);
+                    if (
+                        newPath !== null &&
+                        !remotePaths.has(newPath) &&
+                        !(await this.storage.exists(folder.workspacePath)) &&
+                        (await this.storage.exists(newPath))
+                    ) {
+                        await this.renameOfflineFolder(folder, newPath);
+                        folderRenames.set(folder.workspacePath, newPath);
+                        continue;
+                    }
+
+                    // the folder is cached before writing it, so the vault create event is ignored
+                    this.fileCache.createFolder(folder);
+                    if (!(await this.storage.exists(folder.workspacePath))) {
+                        await this.storage.write(folder.workspacePath, "", { isDir: true });
+                    }
+                } catch (error) {
+                    log.error(`error while creating folder "${folder.workspacePath}"`, error);
+                }
+            }
+        } catch (error) {
+            log.error("error while fetching remote folders", error);
+        }
+    }
+
+    /**
+     * Returns the path where the folder has been moved while offline, guessed from
+     * its renamed parents or from the files renamed out of it. It returns null if unknown.
+     */
+    private offlineFolderRename(
+        folderpath: string,
+        folderRenames: Map<string, string>,
+    ): string | null {
+        for (const [oldPath, newPath] of folderRenames) {
+            if (folderpath.startsWith(oldPath + path.sep)) {
+                return newPath + folderpath.slice(oldPath.length);
+            }
+        }
+
+        for (const [oldPath, newPath] of this.offlineRenames) {
+            if (!oldPath.startsWith(folderpath + path.sep)) {
+                continue;
+            }
+
+            const relativePath = oldPath.slice(folderpath.length);
+            if (newPath.endsWith(relativePath) && newPath.length > relativePath.length) {
+                return newPath.slice(0, -relativePath.length);
+            }
+        }
+
+        return null;
+    }
+
+    private async renameOfflineFolder(folder: Folder, newPath: string) {
+        log.info(`folder "${folder.workspacePath}" was renamed to "${newPath}" while offline`);
+        const updatedFolder = await this.apiClient.updateFolder(folder.id, newPath);
+        this.fileCache.createFolder(updatedFolder);
+
+        const msg: EventMessage = {
+            type: MessageType.Rename,
+            fileId: folder.id,
+            objectType: "folder",
+            workspacePath: folder.workspacePath,
+        };
+        this.wsClient.sendMessage(msg);
+    }
+
+    /**
+     * Publish to the server the local unsynchronized files. The plan confirmed
+     * at startup is applied as it is, otherwise it is computed on the fetched
+     * files after applying the remote changes missed while paused.
+     */
+    async fetchRemoteFiles(
+        strategy: ConflictResolution = this.options.conflictResolution,
+        plan?: ReconcilePlan,
+    ): Promise<SyncSummary> {
+        try {
+            let toApply = plan;
+            if (!toApply) {
+                const files = await this.fetchSyncedFiles();
+                await this.applyMissedRemoteChanges(files);
+                toApply = await this.planRemoteFiles(files, strategy);
+            }
+
+            const { files } = toApply;
+            await this.detectOfflineRenames(toApply.renames);
+            await this.detectOfflineDeletions(toApply.deletions);
+            const deleted = await this.applyTombstones(files);
+
+            const reconciled = files.filter((file) => !deleted.has(file.id));
+            const outcomes = await Promise.allSettled(
+                reconciled.map((file) =>
+                    this.reconcileRemoteFile(file, plannedAction(toApply, file.id)),
+                ),
+            );
+            outcomes.forEach((outcome, i) => {
+                this.recordReconcileActivity(reconciled[i], outcome);
+            });
+
+            const remoteIds = new Set(
+                files.filter((file) => !deleted.has(file.id)).map((file) => file.id),
+            );
+            for (const entry of this.contracts.journal.dump()) {
+                if (!remoteIds.has(entry.fileId)) {
+                    this.contracts.journal.delete(entry.fileId);
+                }
+            }
+            for (const file of files) {
+                if (this.fileCache.hasById(file.id)) {
+                    this.recordJournal(file.id);
+                }
+            }
+
+            return summarize(outcomes);
+        } catch (error) {
+            log.error("error while fetching remote files", error);
+            return summarize([]);
+        }
+    }
+
+    /**
+     * Applies the remote renames and deletions of the cached files missed while
+     * the sync was paused. The cache is empty at startup, there is nothing to do.
+     */
+    private async applyMissedRemoteChanges(files: File[]) {
+        const remote = new Map(files.map((file) => [file.id, file]));
+
+        for (const cachedFile of this.fileCache.find(() => true)) {
+            const file = remote.get(cachedFile.id);
+            const oldPath = cachedFile.workspacePath;
+            const local =
+                !this.fileCache.isPlaceholder(cachedFile.id) &&
+                (await this.storage.exists(oldPath));
+
+            try {
+                if (!file) {
+                    log.info(`"${oldPath}" was deleted in remote while paused`);
+                    if (local) {
+                        await this.moveToTrash(oldPath, "deleted");
+                        await this.storage.delete(oldPath, { force: true });
+                    }
+                    this.fileCache.deleteById(cachedFile.id);
+                    this.contracts.journal.delete(cachedFile.id);
+                } else if (file.workspacePath !== oldPath) {
+                    log.info(`"${oldPath}" was renamed in remote to "${file.workspacePath}"`);
+                    this.fileCache.setPath(cachedFile.id, file.workspacePath);
+                    this.recordJournal(cachedFile.id);
+                    if (local && !(await this.storage.exists(file.workspacePath))) {
+                        await this.storage.rename(oldPath, file.workspacePath);
+                    }
+                }
+            } catch (error) {
+                log.error(`error while applying the remote changes of "${oldPath}"`, error);
+            }
+        }
+    }
+
+    /**
+     * Renames in remote the files renamed or moved while the plugin was not running,
+     * instead of uploading them again as new files
+     */
+    private async detectOfflineRenames(renames: Map<File, string>) {
+        for (const [file, newPath] of renames) {
+            try {
+                log.info(`"${file.workspacePath}" was renamed to "${newPath}" while offline`);
+                const updatedFile = await this.apiClient.updateFile(file.id, newPath);
+
+                const oldPath = file.workspacePath;
+                this.offlineRenames.set(oldPath, updatedFile.workspacePath);
+                if (this.fileCache.hasById(file.id)) {
+                    this.fileCache.setPath(file.id, updatedFile.workspacePath);
+                }
+                // the reconciliation continues on the renamed file
+                file.workspacePath = updatedFile.workspacePath;
+                file.updatedAt = updatedFile.updatedAt;
+
+                const msg: EventMessage = {
+                    type: MessageType.Rename,
+                    fileId: file.id,
+                    objectType: "file",
+                    workspacePath: oldPath,
+                };
+                this.wsClient.sendMessage(msg);
+                this.recordActivity("outgoing", "rename", file.workspacePath);
+            } catch (error) {
+                log.error(`error while renaming "${file.workspacePath}" to "${newPath}"`, error);
+                this.recordActivity("outgoing", "rename", file.workspacePath, error);
+            }
+        }
+    }
+
+    // returns the new local path of the files renamed while offline. The synced files
+    // of the journal missing locally are matched by content hash with the local files
+    // unknown to remote
+    private async matchOfflineRenames(files: File[]): Promise<Map<File, string>> {
+        const renames = new Map<File, string>();
+        const missing: File[] = [];
+        for (const file of files) {
+            if (
+                this.contracts.journal.get(file.id) &&
+                !(await this.storage.exists(file.workspacePath))
+            ) {
+                missing.push(file);
+            }
+        }
+        if (missing.length === 0) {
+            return renames;
+        }
+
+        const remotePaths = new Set(files.map((file) => file.workspacePath));
+        const unknownByHash = new Map<string, string[]>();
+        for (const local of await this.storage.listFiles()) {
+            if (remotePaths.has(local.path) || !this.filter.isSynced(local.path)) {
+                continue;
+            }
+
+            const hash = await generateSHA256Hash(await this.storage.read(local.path));
+            unknownByHash.set(hash, [...(unknownByHash.get(hash) ?? []), local.path]);
+        }
+
+        for (const file of missing) {
+            // the local copy could have been renamed without being modified after the last sync
+            const base = this.contracts.journal.get(file.id)?.base;
+            const hashes = [file.hash];
+            if (base !== undefined && base !== null) {
+                hashes.push(await generateSHA256Hash(base));
+            }
+
+            const hash = hashes.find((h) => (unknownByHash.get(h)?.length ?? 0) > 0);
+            if (hash === undefined) {
+                continue;
+            }
+            const candidates = unknownByHash.get(hash) as string[];
+            renames.set(file, candidates.shift() as string);
+        }
+
+        return renames;
+    }
+
+    /**
+     * Records a tombstone for every file of the journal deleted locally while the
+     * plugin was not running, telling it apart from the files new in remote
+     */
+    private async detectOfflineDeletions(deletions: File[]) {
+        for (const file of deletions) {
+            log.debug(`"${file.workspacePath}" was deleted while offline`);
+            this.contracts.journal.setTombstone({
+                fileId: file.id,
+                workspacePath: file.workspacePath,
+                version: this.contracts.journal.get(file.id)?.version ?? file.version,
+                deletedAt: new Date().toISOString(),
+            });
+        }
+    }
+
+    // returns the synced files missing locally without a tombstone yet
+    private async matchOfflineDeletions(files: File[]): Promise<File[]> {
+        const deleted: File[] = [];
+        for (const file of files) {
+            const entry = this.contracts.journal.get(file.id);
+            if (!entry || entry.placeholder || this.contracts.journal.getTombstone(file.id)) {
+                continue;
+            }
+
+            // a file renamed in remote is still present locally with the old path
+            if (
+                (await this.storage.exists(file.workspacePath)) ||
+                (await this.storage.exists(entry.workspacePath))
+            ) {
+                continue;
+            }
+
+            deleted.push(file);
+        }
+        return deleted;
+    }
+
+    /**
+     * Sends to the server the deletions recorded in the tombstones. It returns the
+     * ids of the files deleted, or still to be deleted, that must not be restored.
+     */
+    private async applyTombstones(files: File[]): Promise<Set<number>> {
+        const remote = new Map(files.map((file) => [file.id, file]));
+        const deleted = new Set<number>();
+
+        const tombstones = this.contracts.journal.dumpTombstones().filter((tombstone) => {
+            if (remote.has(tombstone.fileId)) {
+                return true;
+            }
+            // already deleted in remote
+            this.contracts.journal.deleteTombstone(tombstone.fileId);
+            return false;
+        });
+
+        if (
+            this.isMassDeletion(tombstones.length, files.length) &&
+            !(await this.confirmDeletion(
+                "offline",
+                tombstones.map((tombstone) => tombstone.workspacePath),
+            ))
+        ) {
+            log.warn(`${tombstones.length} files deleted while offline, restoring them`);
+            for (const tombstone of tombstones) {
+                this.contracts.journal.deleteTombstone(tombstone.fileId);
+            }
+            return deleted;
+        }
+
+        for (const tombstone of tombstones) {
+            const file = remote.get(tombstone.fileId) as File;
+            if (file.version > tombstone.version) {
+                log.info(`"${file.workspacePath}" was modified in remote after its deletion`);
+                this.contracts.journal.deleteTombstone(tombstone.fileId);
+                continue;
+            }
+
+            deleted.add(file.id);
+            try {
+                await this.apiClient.deleteFile(file.id);
+                this.contracts.journal.deleteTombstone(file.id);
+                this.contracts.journal.delete(file.id);
+                this.fileCache.deleteById(file.id);
+
+                const msg: EventMessage = {
+                    type: MessageType.Delete,
+                    fileId: file.id,
+                    objectType: "file",
+                    workspacePath: file.workspacePath,
+                };
+                this.wsClient.sendMessage(msg);
+                this.recordActivity("outgoing", "delete", file.workspacePath);
+            } catch (error) {
+                // the tombstone is kept, the deletion is retried at the next startup
+                log.error(`error while deleting "${file.workspacePath}"`, error);
+                this.recordActivity("outgoing", "delete", file.workspacePath, error);
+            }
+        }
+
+        return deleted;
+    }
+
+    /**
+     * Returns true if the deletion of the given number of files, out of the total,
+     * goes beyond the configured limits. Single files are never considered massive.
+     */
+    private isMassDeletion(count: number, total: number): boolean {
+        const { massDeletionCount, massDeletionPercentage } = this.options;
+        if (count <= 1) {
+            return false;
+        }
+
+        return (
+            (massDeletionCount > 0 && count > massDeletionCount) ||
+            (massDeletionPercentage > 0 && count * 100 > massDeletionPercentage * total)
+        );
+    }
+
+    // returns true if the deletion is not massive or it is confirmed
+    private async allowDeletion(
+        origin: DeletionRequest["origin"],
+        paths: string[],
+        total: number,
+    ): Promise<boolean> {
+        return (
+            !this.isMassDeletion(paths.length, total) || (await this.confirmDeletion(origin, paths))
+        );
+    }
+
+    private async confirmDeletion(
+        origin: DeletionRequest["origin"],
+        paths: string[],
+    ): Promise<boolean> {
+        log.info(`asking confirmation to delete ${paths.length} files`);
+        return await this.queueModal(() => this.contracts.confirmDeletion({ origin, paths }));
+    }
+
+    /**
+     * Aligns the local copy of a file with its remote version applying the
+     * planned action, it returns what has been done to it
+     */
+    private async reconcileRemoteFile(file: File, action: FileAction): Promise<ReconcileOutcome> {
+        // Handle new files
+        if (action.type === "download") {
+            if (action.lazy) {
+                log.debug(`"${file.workspacePath}" will be downloaded on demand`);
+                this.fileCache.create({ ...file, content: new ArrayBuffer(0) });
+                this.fileCache.setPlaceholder(file.id, true);
+                return "created";
+            }
+
+            const remoteFile = await this.apiClient.fetchFile(file.id);
+            this.fileCache.create(remoteFile);
+            await this.storage.write(file.workspacePath, remoteFile.content);
+            return "created";
+        }
+        if (action.type === "delete") {
+            // the deletions are applied with the tombstones, before reconciling the files
+            log.warn(`unexpected deletion of "${file.workspacePath}"`);
+            return "skipped";
+        }
+
+        // Handle binary
+        if (!isTextMime(file.mimeType)) {
+            const localBinaryContent = await this.storage.readBinary(file.workspacePath);
+
+            const fileToCache: FileWithContent = {
+                ...file,
+                content: localBinaryContent,
+            };
+
+            if (action.type !== "skip") {
+                // the remote content is downloaded only if it is kept
+                switch (action.strategy) {
+                    case "local":
+                        log.debug(
+                            `handling conflict on binary "${file.workspacePath}", keeping local copy`,
+                        );
+                        await this.updateBinary(file, localBinaryContent);
+                        return "updated";
+                    case "remote": {
+                        log.debug(
+                            `handling conflict on binary "${file.workspacePath}", overwriting local copy`,
+                        );
+                        const remoteFile = await this.apiClient.fetchFile(file.id);
+                        await this.moveToTrash(file.workspacePath, "overwritten");
+                        await this.storage.write(file.workspacePath, remoteFile.content, {
+                            force: true,
+                        });
+                        fileToCache.content = remoteFile.content;
+                        this.fileCache.create(fileToCache);
+                        return "updated";
+                    }
+                    default: {
+                        // binaries can't be merged, both versions are kept
+                        const remoteFile = await this.apiClient.fetchFile(file.id);
+                        await this.keepBoth(file, localBinaryContent, remoteFile.content);
+                        return "conflicted";
+                    }
+                }
+            }
+
+            this.fileCache.create(fileToCache);
+            return "skipped";
+        }
+
+        // Handle Text
+        if (isTextMime(file.mimeType)) {
+            const localTextContent = await this.storage.readText(file.workspacePath);
+
+            const fileToCache: FileWithContent = {
+                ...file,
+                content: localTextContent,
+            };
+
+            if (action.type === "skip") {
+                this.fileCache.create(fileToCache);
+                return "skipped";
+            }
+
+            const entry = this.contracts.journal.get(file.id);
+            if (
+                action.type === "rebase" &&
+                entry &&
+                (await this.rebaseOfflineChanges(file, entry, localTextContent))
+            ) {
+                return "updated";
+            }
+
+            const strategy = action.strategy;
+            const remoteFile = await this.apiClient.fetchFile(file.id);
+            const localStat = await this.storage.stat(file.workspacePath);
+            const localFileMtime = new Date(localStat?.mtime ?? localStat?.ctime ?? 0);
+            const remoteFileMtime = new Date(remoteFile.updatedAt);
+
+            if (typeof remoteFile.content !== "string") {
+                log.error(
+                    `critical error during conflict, expected "string" got "${typeof remoteFile.content}"`,
+                );
+                return "skipped";
+            }
+
+            // Handle conflict
+            let reconciled: ReconcileOutcome = "updated";
+            switch (strategy) {
+                case "merge": {
+                    log.debug(
+                        `handling conflict on file "${file.workspacePath}", using merge tool`,
+                    );
+                    const outcome = await this.mergeConflict(
+                        file,
+                        {
+                            content: localTextContent,
+                            lastUpdate: localFileMtime,
+                        },
+                        {
+                            content: remoteFile.content,
+                            lastUpdate: remoteFileMtime,
+                        },
+                    );
+
+                    const mergedContent = outcomeContent(
+                        outcome,
+                        localTextContent,
+                        remoteFile.content,
+                    );
+                    if (mergedContent === null) {
+                        log.info(`conflict on file "${file.workspacePath}" deferred`);
+                        reconciled = "conflicted";
+                        break;
+                    }
+
+                    fileToCache.content = mergedContent;
+                    this.fileCache.create(fileToCache);
+
+                    await this.storage.write(file.workspacePath, mergedContent, {
+                        force: true,
+                    });
+
+                    const chunks = computeDiff(remoteFile.content, mergedContent);
+                    this.sendChunks(file.id, file.version, chunks);
+                    break;
+                }
+                case "local": {
+                    const chunks = computeDiff(remoteFile.content, localTextContent);
+                    if (chunks.length === 0) {
+                        return "skipped";
+                    }
+
+                    log.debug(
+                        `handling conflict on file "${file.workspacePath}", overwriting remote copy`,
+                    );
+
+                    fileToCache.content = localTextContent;
+                    fileToCache.updatedAt = new Date(localStat?.mtime ?? "").toISOString();
+                    this.fileCache.create(fileToCache);
+
+                    this.sendChunks(file.id, file.version, chunks);
+                    break;
+                }
+                case "three-way": {
+                    const baseContent = await this.fetchBaseContent(file);
+                    const result =
+                        baseContent !== null
+                            ? merge3(baseContent, localTextContent, remoteFile.content)
+                            : null;
+
+                    let mergedContent: string | null;
+                    if (result && result.conflicts === 0) {
+                        log.debug(
+                            `handling conflict on file "${file.workspacePath}", merged automatically`,
+                        );
+                        mergedContent = joinMergeChunks(result.chunks, "local");
+                    } else {
+                        log.debug(
+                            `handling conflict on file "${file.workspacePath}", using merge tool`,
+                        );
+                        const outcome = await this.mergeConflict(
+                            file,
+                            {
+                                content: localTextContent,
+                                lastUpdate: localFileMtime,
+                            },
+                            {
+                                content: remoteFile.content,
+                                lastUpdate: remoteFileMtime,
+                            },
+                            baseContent,
+                        );
+                        mergedContent = outcomeContent(
+                            outcome,
+                            localTextContent,
+                            remoteFile.content,
+                        );
+                    }
+
+                    if (mergedContent === null) {
+                        log.info(`conflict on file "${file.workspacePath}" deferred`);
+                        reconciled = "conflicted";
+                        break;
+                    }
+
+                    // the cache keeps the remote version, it is updated on ack
+                    fileToCache.content = remoteFile.content;
+                    this.fileCache.create(fileToCache);
+
+                    if (mergedContent !== localTextContent) {
+                        await this.storage.write(file.workspacePath, mergedContent, {
+                            force: true,
+                        });
+                    }
+
+                    const chunks = computeDiff(remoteFile.content, mergedContent);
+                    this.sendChunks(file.id, file.version, chunks);
+                    break;
+                }
+                case "keep-both": {
+                    await this.keepBoth(file, localTextContent, remoteFile.content);
+                    reconciled = "conflicted";
+                    break;
+                }
+                case "remote": {
+                    log.debug(
+                        `handling conflict on file "${file.workspacePath}", overwriting local copy`,
+                    );
+                    fileToCache.content = remoteFile.content;
+                    this.fileCache.create(fileToCache);
+
+                    await this.moveToTrash(file.workspacePath, "overwritten");
+                    await this.storage.write(file.workspacePath, remoteFile.content, {
+                        force: true,
+                    });
+                    break;
+                }
+                default:
+                    log.warn(
+                        `conflict on file "${file.workspacePath}" not solved, invalid strategy ${strategy}`,
+                    );
+                    reconciled = "conflicted";
+                    break;
+            }
+            return reconciled;
+        }
+
+        log.warn(`unexpected reconciliation status for "${file.workspacePath}"`);
+        return "skipped";
+    }
+
+    /**
+     * Keeps the remote version in place and moves the local one in a conflict
+     * copy next to it, uploaded as a new file
+     */
+    private async keepBoth(
+        file: File,
+        localContent: string | ArrayBuffer,
+        remoteContent: string | ArrayBuffer,
+    ) {
+        const copyPath = conflictCopyPath(file.workspacePath, this.options.deviceName, new Date());
+        log.debug(
+            `handling conflict on file "${file.workspacePath}", keeping both in "${copyPath}"`,
+        );
+
+        // the copy is cached before writing it, so the vault create event is ignored
+        const fileApi = await this.createRemoteFile(copyPath, localContent);
+        this.fileCache.create({ ...fileApi, content: localContent });
+        this.recordJournal(fileApi.id);
+        await this.storage.write(copyPath, localContent);
+
+        this.fileCache.create({ ...file, content: remoteContent });
+        await this.storage.write(file.workspacePath, remoteContent, { force: true });
+
+        const msg: EventMessage = {
+            type: MessageType.Create,
+            fileId: fileApi.id,
+            objectType: "file",
+            workspacePath: fileApi.workspacePath,
+        };
+        this.wsClient.sendMessage(msg);
+    }
+
+    private queueModal<T>(open: () => Promise<T>): Promise<T> {
+        const result = this.modalQueue.then(open);
+        this.modalQueue = result.catch(() => {});
+        return result;
+    }
+
+    /**
+     * Queues the conflict in the pending list and waits for the user to solve it
+     * with the merge tool. The conflict stays pending if deferred.
+     */
+    private async mergeConflict(
+        file: File,
+        local: FileDiff,
+        remote: FileDiff,
+        base: string | null = null,
+    ): Promise<MergeOutcome> {
+        const encoder = new TextEncoder();
+        this.pendingConflicts.set(file.id, {
+            fileId: file.id,
+            workspacePath: file.workspacePath,
+            detectedAt: new Date().toISOString(),
+            localUpdatedAt: local.lastUpdate.toISOString(),
+            remoteUpdatedAt: remote.lastUpdate.toISOString(),
+            localSize: encoder.encode(local.content).byteLength,
+            remoteSize: encoder.encode(remote.content).byteLength,
+        });
+        this.notifyPendingConflicts();
 
-        this.contracts.snapshotEventBus.on(
-            "file-focus-change",
-            this.snapshotFileChanged.bind(this),
+        const outcome = await this.queueModal(() =>
+            this.contracts.diffModal(file.workspacePath, local, remote, base),
         );
-        this.contracts.snapshotEventBus.on("snapshot-selected", this.snapshotSelected.bind(this));
+
+        if (outcome.type !== "deferred") {
+            this.pendingConflicts.delete(file.id);
+            this.notifyPendingConflicts();
+        }
+
+        return outcome;
     }
 
-    async init() {
-        await this.fetchRemoteFiles();
-        await this.pushLocalFiles();
+    private notifyPendingConflicts() {
+        this.contracts.conflictEventBus.emit("conflicts-list-updated", this.getPendingConflicts());
+    }
+
+    private hasPendingConflict(workspacePath: string): boolean {
+        for (const conflict of this.pendingConflicts.values()) {
+            if (conflict.workspacePath === workspacePath) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    getPendingConflicts(): PendingConflict[] {
+        return [...this.pendingConflicts.values()];
     }
 
     /**
-     * Publish to the server the local unsynchronized files
+     * Reconciles again the files with a deferred conflict, one at a time.
+     * If no file ids are given all the pending conflicts are resolved.
      */
-    async pushLocalFiles() {
+    async resolvePendingConflicts(
+        strategy: ConflictResolution = this.options.conflictResolution,
+        fileIds?: number[],
+    ) {
+        const conflicts = this.getPendingConflicts().filter(
+            (conflict) => fileIds === undefined || fileIds.includes(conflict.fileId),
+        );
+        if (conflicts.length === 0) {
+            return;
+        }
+
         try {
-            const files = await this.storage.listFiles();
+            const files = await this.apiClient.fetchFiles();
 
-            const filesToPush = files.map(async (file) => {
-                if (this.fileCache.hasByPath(file.path)) {
-                    return;
+            for (const conflict of conflicts) {
+                this.pendingConflicts.delete(conflict.fileId);
+                this.notifyPendingConflicts();
+
+                const file = files.find((f) => f.id === conflict.fileId);
+                if (!file) {
+                    log.warn(`file "${conflict.workspacePath}" not found in remote`);
+                    continue;
                 }
 
-                const currentContent = await this.storage.read(file.path);
-                const fileApi = await this.apiClient.createFile(file.path, currentContent);
-                this.fileCache.create({ ...fileApi, content: currentContent });
+                const facts = await this.fileFacts(file, file.workspacePath, strategy);
+                await this.reconcileRemoteFile(file, planFileAction(facts));
+                if (this.fileCache.hasById(file.id)) {
+                    this.recordJournal(file.id);
+                }
+            }
+        } catch (error) {
+            log.error("error while resolving pending conflicts", error);
+        }
+    }
 
-                const msg: EventMessage = {
-                    type: MessageType.Create,
-                    fileId: fileApi.id,
-                    objectType: "file",
-                    workspacePath: fileApi.workspacePath,
-                };
-                this.wsClient.sendMessage(msg);
-            });
+    /**
+     * Returns the content of the last synced version of the file, used as
+     * common ancestor for the three-way merge. It returns null if unknown.
+     */
+    private async fetchBaseContent(file: File): Promise<string | null> {
+        const entry = this.contracts.journal.get(file.id);
+        if (!entry) {
+            return null;
+        }
+
+        if (entry.base !== null) {
+            return entry.base;
+        }
 
-            await Promise.allSettled(filesToPush);
+        try {
+            const snapshot = await this.apiClient.fetchSnapshot(file.id, entry.version);
+            return typeof snapshot.content === "string" ? snapshot.content : null;
         } catch (error) {
-            log.error("error while pushing local files", error);
+            log.warn(`missing base version ${entry.version} of "${file.workspacePath}"`, error);
+            return null;
         }
     }
 
+    private isLazy(file: File): boolean {
+        const threshold = this.options.lazyDownloadThreshold;
+        return threshold > 0 && !isTextMime(file.mimeType) && (file.size ?? 0) > threshold;
+    }
+
     /**
-     * Publish to the server the local unsynchronized files
+     * Downloads the content of a file left as placeholder
      */
-    async fetchRemoteFiles() {
-        try {
-            const files = await this.apiClient.fetchFiles();
-            log.info(`fetched ${files.length} files from remote`);
-            log.debug(files);
+    async materialize(fileId: number): Promise<void> {
+        const running = this.downloads.get(fileId);
+        if (running) {
+            return await running;
+        }
 
-            const fetchRemotePromises = files.map(async (file) => {
-                const exists = await this.storage.exists(file.workspacePath);
+        const download = this.downloadPlaceholder(fileId).finally(() => {
+            this.downloads.delete(fileId);
+        });
+        this.downloads.set(fileId, download);
+        return await download;
+    }
 
-                // Handle new files
-                if (!exists) {
-                    const remoteFile = await this.apiClient.fetchFile(file.id);
-                    this.fileCache.create(remoteFile);
-                    await this.storage.write(file.workspacePath, remoteFile.content);
-                    return;
-                }
+    private async downloadPlaceholder(fileId: number) {
+        const file = this.fileCache.getById(fileId);
+        if (!file || !this.fileCache.isPlaceholder(fileId)) {
+            return;
+        }
 
-                // Handle binary
-                if (!isTextMime(file.mimeType)) {
-                    const localBinaryContent = await this.storage.readBinary(file.workspacePath);
-                    const localHash = await generateSHA256Hash(localBinaryContent);
+        const { workspacePath, hash } = file;
+        log.info(`downloading "${workspacePath}"`);
+        const content = await this.apiClient.download(fileId, (downloaded, size) => {
+            log.debug(`downloading "${workspacePath}": ${Math.floor((downloaded * 100) / size)}%`);
+        });
 
-                    const fileToCache: FileWithContent = {
-                        ...file,
-                        content: localBinaryContent,
-                    };
+        if ((await generateSHA256Hash(content)) !== hash) {
+            throw new Error(`downloaded content of "${workspacePath}" doesn't match its hash`);
+        }
 
-                    if (localHash !== file.hash) {
-                        const remoteFile = await this.apiClient.fetchFile(file.id);
-                        await this.storage.write(file.workspacePath, remoteFile.content, {
-                            force: true,
-                        });
-                        fileToCache.content = remoteFile.content;
-                    }
+        // the file could be changed while downloading
+        const current = this.fileCache.getById(fileId);
+        if (!current || !this.fileCache.isPlaceholder(fileId) || current.hash !== hash) {
+            log.debug(`"${workspacePath}" changed while downloading, discarding it`);
+            return;
+        }
 
-                    this.fileCache.create(fileToCache);
-                    return;
-                }
+        this.fileCache.create({ ...current, content });
+        this.recordJournal(fileId);
+        await this.storage.write(current.workspacePath, content, { force: true });
+    }
 
-                // Handle Text
-                if (isTextMime(file.mimeType)) {
-                    const localTextContent = await this.storage.readText(file.workspacePath);
-                    const localHash = await generateSHA256Hash(localTextContent);
+    /**
+     * Downloads in background the placeholders, smaller first, until the budget is exhausted
+     */
+    async prefetch() {
+        let budget = this.options.prefetchBudget;
+        const placeholders = this.fileCache
+            .find((file) => this.fileCache.isPlaceholder(file.id))
+            .sort((a, b) => (a.size ?? 0) - (b.size ?? 0));
+
+        for (const file of placeholders) {
+            const size = file.size ?? 0;
+            if (size > budget) {
+                break;
+            }
 
-                    const fileToCache: FileWithContent = {
-                        ...file,
-                        content: localTextContent,
-                    };
+            try {
+                await this.materialize(file.id);
+                budget -= size;
+            } catch (error) {
+                log.error(`error while prefetching "${file.workspacePath}"`, error);
+            }
+        }
+    }
 
-                    if (localHash === file.hash) {
-                        this.fileCache.create(fileToCache);
-                        return;
-                    }
+    /**
+     * Rebases the changes made while offline on top of the operations received
+     * by the server since the last synced version stored in the journal.
+     * It returns false if the file can't be rebased.
+     */
+    private async rebaseOfflineChanges(
+        file: File,
+        entry: JournalEntry,
+        localContent: string,
+    ): Promise<boolean> {
+        if (entry.base === null || entry.version > file.version) {
+            return false;
+        }
 
-                    const remoteFile = await this.apiClient.fetchFile(file.id);
-                    const localStat = await this.storage.stat(file.workspacePath);
-                    const localFileMtime = new Date(localStat?.mtime ?? localStat?.ctime ?? 0);
-                    const remoteFileMtime = new Date(remoteFile.updatedAt);
+        const remoteChunks: DiffChunk[] = [];
+        // the pending chunks applied by the server whose ack was lost, they are not sent again
+        let appliedCount = 0;
+        if (entry.version < file.version) {
+            const operations = await this.apiClient.fetchOperations(file.id, entry.version);
 
-                    if (typeof remoteFile.content !== "string") {
-                        log.error(
-                            `critical error during conflict, expected "string" got "${typeof remoteFile.content}"`,
-                        );
-                        return;
-                    }
+            let currVersion = entry.version;
+            for (const operation of operations) {
+                if (operation.version <= entry.version) {
+                    continue;
+                }
+                if (operation.version > file.version) {
+                    break;
+                }
+                if (currVersion + 1 !== operation.version) {
+                    log.warn(`missing operation in history for file "${file.workspacePath}"`);
+                    return false;
+                }
 
-                    // Handle conflict
-                    switch (this.options.conflictResolution) {
-                        case "merge": {
-                            log.debug(
-                                `handling conflict on file "${file.workspacePath}", using merge tool`,
-                            );
-                            const mergedContent = await this.contracts.diffModal(
-                                file.workspacePath,
-                                {
-                                    content: localTextContent,
-                                    lastUpdate: localFileMtime,
-                                },
-                                {
-                                    content: remoteFile.content,
-                                    lastUpdate: remoteFileMtime,
-                                },
-                            );
-
-                            fileToCache.content = mergedContent;
-                            this.fileCache.create(fileToCache);
-
-                            await this.storage.write(file.workspacePath, mergedContent, {
-                                force: true,
-                            });
-
-                            const chunks = computeDiff(remoteFile.content, mergedContent);
-                            this.sendChunks(file.id, file.version, chunks);
-                            break;
-                        }
-                        case "local": {
-                            const chunks = computeDiff(remoteFile.content, localTextContent);
-                            if (chunks.length === 0) {
-                                return;
-                            }
-
-                            log.debug(
-                                `handling conflict on file "${file.workspacePath}", overwriting remote copy`,
-                            );
-
-                            fileToCache.content = localTextContent;
-                            fileToCache.updatedAt = new Date(localStat?.mtime ?? "").toISOString();
-                            this.fileCache.create(fileToCache);
-
-                            this.sendChunks(file.id, file.version, chunks);
-                            break;
-                        }
-                        case "remote": {
-                            log.debug(
-                                `handling conflict on file "${file.workspacePath}", overwriting local copy`,
-                            );
-                            fileToCache.content = remoteFile.content;
-                            this.fileCache.create(fileToCache);
-
-                            await this.storage.write(file.workspacePath, remoteFile.content, {
-                                force: true,
-                            });
-                            break;
-                        }
-                        default:
-                            log.warn(
-                                `conflict on file "${file.workspacePath}" not solved, invalid strategy ${this.options.conflictResolution}`,
-                            );
-                            break;
-                    }
-                    return;
+                const sent = entry.pending[appliedCount];
+                if (sent && isAppliedChunkMessage(operation, sent)) {
+                    appliedCount++;
                 }
+                remoteChunks.push(...operation.operation);
+                currVersion = operation.version;
+            }
+        }
 
-                log.warn(`unexpected reconciliation status for "${file.workspacePath}"`);
-            });
+        const remoteContent = applyDiffs(entry.base, remoteChunks);
+        const remoteHash = await generateSHA256Hash(remoteContent);
+        if (remoteHash !== file.hash) {
+            log.warn(`journal base of "${file.workspacePath}" diverged from remote`);
+            return false;
+        }
 
-            await Promise.allSettled(fetchRemotePromises);
-        } catch (error) {
-            log.error("error while fetching remote files", error);
+        // the local edits are rebased on the content including the applied chunks,
+        // the remote changes are the ones made by the other clients
+        let localBase = entry.base;
+        let otherChunks = remoteChunks;
+        if (appliedCount > 0) {
+            log.debug(
+                `${appliedCount} pending chunk messages of "${file.workspacePath}" already applied by the server`,
+            );
+            localBase = entry.pending
+                .slice(0, appliedCount)
+                .reduce((content, msg) => applyDiffs(content, msg.chunks), localBase);
+            otherChunks = computeDiff(localBase, remoteContent);
+        }
+
+        const localChunks = computeDiff(localBase, localContent);
+        const rebasedChunks = transformMultiple(otherChunks, localChunks);
+        const rebasedContent = applyDiffs(remoteContent, rebasedChunks);
+
+        log.debug(
+            `rebasing ${localChunks.length} offline chunks of "${file.workspacePath}" from version ${entry.version} to ${file.version}`,
+        );
+
+        this.fileCache.create({ ...file, content: remoteContent });
+        if (rebasedContent !== localContent) {
+            await this.storage.write(file.workspacePath, rebasedContent, { force: true });
         }
+        this.sendChunks(file.id, file.version, computeDiff(remoteContent, rebasedContent));
+
+        return true;
     }
 
     // ---------- ChunkMessage ---------
@@ -305,6 +1660,7 @@ export class Syncinator {
             if (isAckMessage) {
                 updatedContent = applyDiffs(file.content as string, data.chunks);
                 this.handleAckMessage(file, deque);
+                this.recordActivity("outgoing", "update", file.workspacePath, undefined, version);
             } else {
                 const chunksToPersist = await this.getChunksToPersist(data, file);
                 updatedContent = await this.storage.readText(file.workspacePath);
@@ -315,13 +1671,16 @@ export class Syncinator {
 
                 updatedContent = applyDiffs(updatedContent, chunksToPersist);
                 await this.storage.write(file.workspacePath, updatedContent, { force: true });
+                this.recordActivity("incoming", "update", file.workspacePath, undefined, version);
             }
 
             file.version = version;
             file.content = updatedContent;
             this.fileCache.setById(file.id, file);
+            this.recordJournal(file.id);
         } catch (error) {
             log.error(error);
+            this.recordActivity("incoming", "update", file.workspacePath, error, version);
         } finally {
             // biome-ignore lint/style/noNonNullAssertion: <explanation>
             resolveModification!();
@@ -331,7 +1690,10 @@ export class Syncinator {
 
     private handleAckMessage(file: File, deque: Deque<ChunkMessage>): void {
         log.debug(`[onChunkMessage] ack message ${file.workspacePath} ${file.id}`);
-        deque.removeFront();
+        const sentAt = this.chunkSentAt.get(deque.removeFront());
+        if (sentAt !== undefined) {
+            this.metrics.observe("sync.ackLatency", performance.now() - sentAt);
+        }
     }
 
     private handleOutOfSyncChunks(
@@ -345,6 +1707,8 @@ export class Syncinator {
         while (!deque.isEmpty()) {
             messages.push(deque.removeFront());
         }
+        this.metrics.increment("sync.outOfSyncRebases");
+        this.metrics.increment("sync.revertedChunkMessages", messages.length);
 
         let content = initialContent;
         for (let i = messages.length - 1; i >= 0; i--) {
@@ -376,6 +1740,7 @@ export class Syncinator {
         // fetch missing versions
         if (file.version + 1 !== version) {
             log.debug(`[onChunkMessage] missing intermediate msg ${file.workspacePath} ${file.id}`);
+            this.metrics.increment("sync.missingVersionFetches");
             const operations = await this.apiClient.fetchOperations(fileId, file.version);
 
             let currVersion = file.version;
@@ -402,38 +1767,371 @@ export class Syncinator {
 
     // ---------- EventMessage ---------
     async handleCreateEvent(event: EventMessage) {
+        if (!this.isEventSynced(event)) {
+            log.debug(`[socket] ignoring create of excluded "${event.workspacePath}"`);
+            return;
+        }
+
         if (event.objectType === "file") {
             const fileApi = await this.apiClient.fetchFile(event.fileId);
             this.fileCache.create(fileApi);
+            this.recordJournal(fileApi.id);
             await this.storage.write(fileApi.workspacePath, fileApi.content);
         } else if (event.objectType === "folder") {
-            await this.storage.write(event.workspacePath, "", { isDir: true });
+            const folder = await this.apiClient.fetchFolder(event.fileId);
+            this.fileCache.createFolder(folder);
+            if (!(await this.storage.exists(folder.workspacePath))) {
+                await this.storage.write(folder.workspacePath, "", { isDir: true });
+            }
+        } else {
+            log.error("[socket] unknown", event);
+        }
+    }
+
+    async handleDeleteEvent(event: EventMessage) {
+        if (event.objectType === "file") {
+            const file = this.fileCache.getById(event.fileId);
+            if (!file) {
+                log.warn(
+                    `[socket] cannot delete file ${event.fileId} as it is not present in current workspace`,
+                );
+                return;
+            }
+            if (!this.fileCache.isPlaceholder(file.id)) {
+                await this.moveToTrash(file.workspacePath, "deleted");
+                await this.storage.delete(file.workspacePath, { force: true });
+            }
+            this.fileCache.deleteById(file.id);
+            this.contracts.journal.delete(file.id);
+        } else if (event.objectType === "folder") {
+            if (!this.isEventSynced(event)) {
+                log.debug(`[socket] ignoring delete of excluded "${event.workspacePath}"`);
+                return;
+            }
+
+            const files = await this.storage.listFiles({
+                prefix: event.workspacePath,
+            });
+
+            const synced = files.filter((file) => this.fileCache.hasByPath(file.path));
+            if (
+                this.isMassDeletion(synced.length, this.fileCache.find(() => true).length) &&
+                !(await this.confirmDeletion(
+                    "remote",
+                    synced.map((file) => file.path),
+                ))
+            ) {
+                log.warn(`deletion of "${event.workspacePath}" not confirmed, uploading it again`);
+                await this.reuploadFolder(event.workspacePath);
+                return;
+            }
+
+            this.forgetFolders(event.workspacePath);
+            for (const file of synced) {
+                await this.moveToTrash(file.path, "deleted");
+            }
+
+            // the excluded files are kept, so the folder can't be removed
+            if (files.some((file) => !this.filter.isSynced(file.path))) {
+                for (const file of files) {
+                    const fileDesc = this.fileCache.getByPath(file.path);
+                    if (fileDesc) {
+                        await this.storage.delete(file.path, { force: true });
+                        this.fileCache.deleteById(fileDesc.id);
+                        this.contracts.journal.delete(fileDesc.id);
+                    }
+                }
+                return;
+            }
+
+            for (const file of files) {
+                const fileDesc = this.fileCache.getByPath(file.path);
+                if (fileDesc) {
+                    this.fileCache.deleteById(fileDesc.id);
+                    this.contracts.journal.delete(fileDesc.id);
+                }
+            }
+            for (const placeholder of this.placeholdersIn(event.workspacePath)) {
+                this.fileCache.deleteById(placeholder.id);
+                this.contracts.journal.delete(placeholder.id);
+            }
+            await this.storage.delete(event.workspacePath, { force: true });
         } else {
             log.error("[socket] unknown", event);
         }
     }
 
-    async handleDeleteEvent(event: EventMessage) {
-        if (event.objectType === "file") {
-            const file = this.fileCache.getById(event.fileId);
+    async handleUpdateEvent(event: EventMessage) {
+        if (event.objectType !== "file") {
+            log.error("[socket] unknown", event);
+            return;
+        }
+
+        if (!this.fileCache.hasById(event.fileId) && !this.isEventSynced(event)) {
+            log.debug(`[socket] ignoring update of excluded "${event.workspacePath}"`);
+            return;
+        }
+
+        if (this.fileCache.isPlaceholder(event.fileId)) {
+            await this.refreshPlaceholders();
+            return;
+        }
+
+        const fileApi = await this.apiClient.fetchFile(event.fileId);
+        const file = this.fileCache.getById(event.fileId);
+        if (file && file.hash === fileApi.hash) {
+            log.debug(`[socket] file ${event.fileId} already up to date`);
+            return;
+        }
+
+        if (file) {
+            this.fileCache.deleteById(file.id);
+        }
+        this.fileCache.create(fileApi);
+        this.recordJournal(fileApi.id);
+        await this.storage.write(fileApi.workspacePath, fileApi.content, { force: true });
+    }
+
+    // keeps a copy of the local content before it is removed or overwritten by remote
+    private async moveToTrash(workspacePath: string, reason: TrashReason) {
+        const trash = this.contracts.trash;
+        if (!trash || !(await this.storage.exists(workspacePath))) {
+            return;
+        }
+
+        try {
+            await trash.put(workspacePath, await this.storage.read(workspacePath), reason);
+        } catch (error) {
+            log.error(`error while moving "${workspacePath}" to the trash`, error);
+        }
+    }
+
+    /**
+     * Creates again locally and in remote the file stored in the trash. If the
+     * path is taken, it is restored as a copy next to it.
+     */
+    async restoreFromTrash(id: string) {
+        const trash = this.contracts.trash;
+        const entry = trash?.get(id);
+        if (!trash || !entry) {
+            throw new Error(`trash entry ${id} not found`);
+        }
+
+        const bytes = await trash.read(id);
+        const content = isText(entry.workspacePath) ? new TextDecoder().decode(bytes) : bytes;
+        const restorePath = (await this.storage.exists(entry.workspacePath))
+            ? conflictCopyPath(entry.workspacePath, "restored", new Date(entry.trashedAt))
+            : entry.workspacePath;
+
+        // the file is published before writing it, so the vault create event is ignored
+        await this.pushLocalFile(restorePath, content);
+        await this.storage.write(restorePath, content);
+        await trash.remove(id);
+        log.info(`"${entry.workspacePath}" restored from the trash in "${restorePath}"`);
+    }
+
+    /**
+     * Compares the local files and the cache with the files in remote, without
+     * changing anything. The files with chunks waiting for the ack are skipped,
+     * they differ until the ack is received.
+     */
+    async checkIntegrity(): Promise<IntegrityIssue[]> {
+        const issues: IntegrityIssue[] = [];
+        const files = (await this.apiClient.fetchFiles()).filter((file) =>
+            this.filter.isSynced(file.workspacePath),
+        );
+
+        const remotePaths = new Set<string>();
+        for (const file of files) {
+            const filepath = file.workspacePath;
+            remotePaths.add(filepath);
+            if (!this.messageQueueRegistry.getDeque(file.id).isEmpty()) {
+                log.debug(`"${filepath}" has pending chunks, skipping the integrity check`);
+                continue;
+            }
+
+            const issue = { path: filepath, fileId: file.id };
+            const exists = await this.storage.exists(filepath);
+            if (!exists && !this.fileCache.isPlaceholder(file.id)) {
+                issues.push({ ...issue, kind: "missing" });
+                continue;
+            }
+
+            if (exists) {
+                const localHash = await generateSHA256Hash(await this.storage.read(filepath));
+                if (localHash !== file.hash) {
+                    issues.push({ ...issue, kind: "drift", detail: "the content differs" });
+                    continue;
+                }
+            }
+
+            const cached = this.fileCache.getById(file.id);
+            if (!cached) {
+                issues.push({ ...issue, kind: "stale", detail: "not tracked" });
+            } else if (cached.version !== file.version) {
+                issues.push({
+                    ...issue,
+                    kind: "stale",
+                    detail: `version ${cached.version}, remote version ${file.version}`,
+                });
+            }
+        }
+
+        for (const local of await this.storage.listFiles()) {
+            if (this.filter.isSynced(local.path) && !remotePaths.has(local.path)) {
+                issues.push({ kind: "extra", path: local.path });
+            }
+        }
+
+        log.info(`integrity check completed, ${issues.length} differences found`);
+        return issues;
+    }
+
+    /**
+     * Solves a difference found by the integrity check, the local copies
+     * replaced by the remote ones are moved to the trash
+     */
+    async repairIntegrityIssue(issue: IntegrityIssue, action: RepairAction) {
+        log.info(`repairing "${issue.path}" (${issue.kind}) with ${action}`);
+
+        if (issue.fileId === undefined) {
+            // the file is no longer tracked, the cached entry points to a deleted file
+            const cached = this.fileCache.getByPath(issue.path);
+            if (cached) {
+                this.fileCache.deleteById(cached.id);
+                this.contracts.journal.delete(cached.id);
+            }
+
+            if (action === "upload") {
+                await this.pushLocalFile(issue.path, await this.storage.read(issue.path));
+            } else if (action === "delete") {
+                await this.moveToTrash(issue.path, "deleted");
+                await this.storage.delete(issue.path, { force: true });
+            }
+            return;
+        }
+
+        if (action === "download") {
+            await this.replaceWithRemote(issue.fileId);
+        } else if (action === "upload") {
+            await this.replaceRemote(issue.fileId, issue.path);
+        }
+    }
+
+    private async replaceWithRemote(fileId: number) {
+        const remoteFile = await this.apiClient.fetchFile(fileId);
+        this.fileCache.create(remoteFile);
+        this.recordJournal(fileId);
+
+        await this.moveToTrash(remoteFile.workspacePath, "overwritten");
+        await this.storage.write(remoteFile.workspacePath, remoteFile.content, { force: true });
+        this.recordActivity(
+            "incoming",
+            "update",
+            remoteFile.workspacePath,
+            undefined,
+            remoteFile.version,
+        );
+    }
+
+    private async replaceRemote(fileId: number, filepath: string) {
+        const remoteFile = await this.apiClient.fetchFile(fileId);
+        if (!isTextMime(remoteFile.mimeType) || typeof remoteFile.content !== "string") {
+            await this.updateBinary(remoteFile, await this.storage.readBinary(filepath));
+            return;
+        }
+
+        // as the local conflict resolution, the cache keeps the remote version
+        const localContent = await this.storage.readText(filepath);
+        this.fileCache.create({ ...remoteFile, content: localContent });
+        this.sendChunks(
+            remoteFile.id,
+            remoteFile.version,
+            computeDiff(remoteFile.content, localContent),
+        );
+    }
+
+    private isEventSynced(event: EventMessage): boolean {
+        return event.objectType === "folder"
+            ? this.filter.isFolderSynced(event.workspacePath)
+            : this.filter.isSynced(event.workspacePath);
+    }
+
+    // files moved to an excluded path are kept locally, but they are no longer synced
+    private untrackExcluded(fileId: number) {
+        const file = this.fileCache.getById(fileId);
+        if (file && !this.filter.isSynced(file.workspacePath)) {
+            log.debug(`"${file.workspacePath}" is excluded, it is no longer synced`);
+            this.fileCache.deleteById(fileId);
+            this.contracts.journal.delete(fileId);
+        }
+    }
+
+    // uploads again as new the folder deleted in remote, when the deletion is not confirmed
+    private async reuploadFolder(folderpath: string) {
+        for (const folder of this.foldersIn(folderpath)) {
+            this.fileCache.deleteFolderById(folder.id);
+        }
+        await this.pushLocalFolder(folderpath);
+
+        const files = await this.storage.listFiles({ prefix: folderpath + path.sep });
+        for (const file of files) {
+            const cachedFile = this.fileCache.getByPath(file.path);
+            if (!cachedFile) {
+                continue;
+            }
+
+            this.fileCache.deleteById(cachedFile.id);
+            this.contracts.journal.delete(cachedFile.id);
+            try {
+                await this.pushLocalFile(file.path, await this.storage.read(file.path));
+            } catch (error) {
+                log.error(`error while uploading again "${file.path}"`, error);
+            }
+        }
+    }
+
+    // removes from the cache the folder and its subfolders
+    private forgetFolders(folderpath: string) {
+        for (const folder of this.foldersIn(folderpath)) {
+            this.fileCache.deleteFolderById(folder.id);
+        }
+    }
+
+    // returns the cached folder and its subfolders
+    private foldersIn(folderpath: string): Folder[] {
+        const prefix = folderpath.endsWith(path.sep) ? folderpath : folderpath + path.sep;
+        return this.fileCache.findFolders(
+            (folder) =>
+                folder.workspacePath + path.sep === prefix ||
+                folder.workspacePath.startsWith(prefix),
+        );
+    }
+
+    private placeholdersIn(folder: string): File[] {
+        const prefix = folder.endsWith(path.sep) ? folder : folder + path.sep;
+        return this.fileCache.find(
+            (file) =>
+                this.fileCache.isPlaceholder(file.id) && file.workspacePath.startsWith(prefix),
+        );
+    }
+
+    // placeholders have no local content, only their metadata is aligned with remote
+    private async refreshPlaceholders() {
+        const files = await this.apiClient.fetchFiles();
+        const remote = new Map(files.map((file) => [file.id, file]));
+
+        for (const placeholder of this.fileCache.find((f) => this.fileCache.isPlaceholder(f.id))) {
+            const file = remote.get(placeholder.id);
             if (!file) {
-                log.warn(
-                    `[socket] cannot delete file ${event.fileId} as it is not present in current workspace`,
-                );
-                return;
+                this.fileCache.deleteById(placeholder.id);
+                this.contracts.journal.delete(placeholder.id);
+                continue;
             }
-            await this.storage.delete(file.workspacePath, { force: true });
-            this.fileCache.deleteById(file.id);
-        } else if (event.objectType === "folder") {
-            const files = await this.storage.listFiles({
-                prefix: event.workspacePath,
-            });
-            for (const file of files) {
-                this.fileCache.deleteByPath(file.path);
-            }
-            await this.storage.delete(event.workspacePath, { force: true });
-        } else {
-            log.error("[socket] unknown", event);
+
+            this.fileCache.create({ ...file, content: placeholder.content });
+            this.fileCache.setPlaceholder(file.id, true);
+            this.recordJournal(file.id);
         }
     }
 
@@ -452,16 +2150,28 @@ export class Syncinator {
         if (!file) {
             log.warn(`[socket] cannot rename file ${event.fileId}. Fetching from remote`);
             const fileApi = await this.apiClient.fetchFile(event.fileId);
+            if (!this.filter.isSynced(fileApi.workspacePath)) {
+                log.debug(`[socket] ignoring rename to excluded "${fileApi.workspacePath}"`);
+                return;
+            }
             this.fileCache.create(fileApi);
+            this.recordJournal(fileApi.id);
             await this.storage.write(fileApi.workspacePath, fileApi.content);
             return;
         }
 
+        if (this.fileCache.isPlaceholder(file.id)) {
+            await this.refreshPlaceholders();
+            return;
+        }
+
         const fileApi = await this.apiClient.fetchFile(event.fileId);
         const oldPath = file.workspacePath;
         const newPath = fileApi.workspacePath;
         this.fileCache.setPath(file.id, newPath);
+        this.recordJournal(file.id);
         await this.storage.rename(oldPath, newPath);
+        this.untrackExcluded(file.id);
     }
 
     async handleFolderRenameEvent(event: EventMessage) {
@@ -469,9 +2179,20 @@ export class Syncinator {
             ? event.workspacePath
             : event.workspacePath + path.sep;
 
+        const hasPlaceholders = this.placeholdersIn(workspacePath).length > 0;
+        if (hasPlaceholders) {
+            await this.refreshPlaceholders();
+        }
+
+        const hasFolders = await this.renameCachedFolders(event);
+
         const files = await this.storage.listFiles({ prefix: workspacePath });
         if (files.length === 0) {
-            log.error("[socket] trying to rename not existing folder");
+            if (hasFolders) {
+                await this.storage.delete(event.workspacePath, { force: true });
+            } else if (!hasPlaceholders) {
+                log.error("[socket] trying to rename not existing folder");
+            }
             return;
         }
 
@@ -486,7 +2207,9 @@ export class Syncinator {
             if (oldPath !== newPath) {
                 this.fileCache.setUpdatedAt(fileDesc.id, fileApi.updatedAt);
                 this.fileCache.setPath(fileDesc.id, newPath);
+                this.recordJournal(fileDesc.id);
                 await this.storage.rename(oldPath, fileApi.workspacePath);
+                this.untrackExcluded(fileDesc.id);
             }
         }
 
@@ -496,27 +2219,76 @@ export class Syncinator {
                 prefix: workspacePath,
             });
             if (filesPostRename.length === 0) {
-                this.storage.delete(event.workspacePath);
+                // the empty subfolders have been already created in the new path
+                this.storage.delete(event.workspacePath, { force: true });
                 break;
             }
             await sleep(100);
         }
     }
 
+    /**
+     * Moves the cached subfolders of the renamed folder, creating them in the new
+     * path so that the empty ones are kept. It returns false if the folder is unknown.
+     */
+    private async renameCachedFolders(event: EventMessage): Promise<boolean> {
+        const renamed = this.fileCache.getFolderById(event.fileId);
+        if (!renamed) {
+            return false;
+        }
+
+        const oldPath = renamed.workspacePath;
+        const { workspacePath: newPath } = await this.apiClient.fetchFolder(renamed.id);
+
+        for (const folder of this.foldersIn(oldPath)) {
+            const folderpath = newPath + folder.workspacePath.slice(oldPath.length);
+            this.fileCache.setFolderPath(folder.id, folderpath);
+            if (!(await this.storage.exists(folderpath))) {
+                await this.storage.write(folderpath, "", { isDir: true });
+            }
+            if (!this.filter.isFolderSynced(folderpath)) {
+                this.fileCache.deleteFolderById(folder.id);
+            }
+        }
+
+        return true;
+    }
+
     async handleEventMessage(event: EventMessage) {
         log.debug("[socket]: event message", event);
-        switch (event.type) {
-            case MessageType.Create:
-                await this.handleCreateEvent(event);
-                break;
-            case MessageType.Delete:
-                await this.handleDeleteEvent(event);
-                break;
-            case MessageType.Rename:
-                await this.handleRenameEvent(event);
-                break;
-            default:
-                log.error(`[socket] unknown event ${event}`);
+        const configSync = this.contracts.configSync;
+        if (configSync?.isConfigPath(event.workspacePath)) {
+            await configSync.handleEventMessage(event);
+            return;
+        }
+
+        const operation = EVENT_OPERATIONS[event.type];
+        try {
+            switch (event.type) {
+                case MessageType.Create:
+                    await this.handleCreateEvent(event);
+                    break;
+                case MessageType.Delete:
+                    await this.handleDeleteEvent(event);
+                    break;
+                case MessageType.Rename:
+                    await this.handleRenameEvent(event);
+                    break;
+                case MessageType.Update:
+                    await this.handleUpdateEvent(event);
+                    break;
+                default:
+                    log.error(`[socket] unknown event ${event}`);
+                    return;
+            }
+        } catch (error) {
+            if (operation) {
+                this.recordActivity("incoming", operation, event.workspacePath, error);
+            }
+            throw error;
+        }
+        if (operation) {
+            this.recordActivity("incoming", operation, event.workspacePath);
         }
     }
 
@@ -529,6 +2301,9 @@ export class Syncinator {
     }
 
     async sendCursorPosition(cursor: CursorPosition) {
+        if (this.paused) {
+            return;
+        }
         if (!this.fileCache.hasByPath(cursor.path)) {
             return;
         }
@@ -555,41 +2330,76 @@ export class Syncinator {
     // ---------- Obsidian events ---------
     private async create({ file }: { file: TAbstractFile }) {
         log.debug("[event]: create", file);
-        if (this.fileCache.hasByPath(file.path)) {
+        if (this.paused) {
+            return;
+        }
+        if (this.fileCache.hasByPath(file.path) || this.fileCache.hasFolderByPath(file.path)) {
             return;
         }
 
         const stat = await this.storage.stat(file.path);
+        const synced =
+            stat?.type === "folder"
+                ? this.filter.isFolderSynced(file.path)
+                : this.filter.isSynced(file.path);
+        if (!synced) {
+            log.debug(`"${file.path}" is excluded, skipping`);
+            return;
+        }
+
         if (stat?.type === "folder") {
-            const msg: EventMessage = {
-                type: MessageType.Create,
-                fileId: 0,
-                objectType: "folder",
-                workspacePath: file.path,
-            };
-            this.wsClient.sendMessage(msg);
+            try {
+                await this.pushLocalFolder(file.path);
+            } catch (error) {
+                // it is created in remote at the next startup
+                log.error(`error while creating folder "${file.path}"`, error);
+            }
             return;
         }
 
         try {
             const currentContent = await this.storage.read(file.path);
-            const fileApi = await this.apiClient.createFile(file.path, currentContent);
-            this.fileCache.create({ ...fileApi, content: currentContent });
-
-            const msg: EventMessage = {
-                type: MessageType.Create,
-                fileId: fileApi.id,
-                objectType: "file",
-                workspacePath: fileApi.workspacePath,
-            };
-            this.wsClient.sendMessage(msg);
+            await this.pushLocalFile(file.path, currentContent);
         } catch (error) {
             log.error(error);
         }
     }
 
+    private async fileOpen({ file, links }: { file: TAbstractFile; links: string[] }) {
+        const placeholders = this.fileCache.find((f) => this.fileCache.isPlaceholder(f.id));
+        if (placeholders.length === 0) {
+            return;
+        }
+
+        const targets = placeholders.filter(
+            (placeholder) =>
+                placeholder.workspacePath === file.path ||
+                links.some((link) => matchesLink(placeholder.workspacePath, link, file.path)),
+        );
+
+        await Promise.allSettled(
+            targets.map((target) =>
+                this.materialize(target.id).catch((error) => {
+                    log.error(`error while downloading "${target.workspacePath}"`, error);
+                }),
+            ),
+        );
+    }
+
     private async modify({ file }: { file: TAbstractFile }) {
         log.debug("[event]: modify", file);
+        if (this.paused) {
+            this.pausedModifications.add(file.path);
+            return;
+        }
+        if (!this.filter.isSynced(file.path)) {
+            return;
+        }
+        if (this.hasPendingConflict(file.path)) {
+            log.debug(`file '${file.path}' has a pending conflict, skipping`);
+            return;
+        }
+
         const cachedFile = this.fileCache.getByPath(file.path);
         if (cachedFile == null) {
             log.error(`file '${file.path}' not found`);
@@ -597,6 +2407,7 @@ export class Syncinator {
         }
 
         if (!isTextMime(cachedFile.mimeType) || typeof cachedFile.content !== "string") {
+            await this.modifyBinary(cachedFile);
             return;
         }
 
@@ -631,47 +2442,95 @@ export class Syncinator {
         }
     }
 
-    private async delete({ file }: { file: TAbstractFile }) {
-        log.debug("[event]: delete", file);
-
-        const deleteFile = async (fileId: number) => {
-            const fileFromCache = this.fileCache.getById(fileId);
-            if (!fileFromCache) {
-                // should be unreachable
-                log.error(`trying to delete a non existing file ${fileId}`);
+    private async modifyBinary(cachedFile: File) {
+        try {
+            const newContent = await this.storage.readBinary(cachedFile.workspacePath);
+            const newHash = await generateSHA256Hash(newContent);
+            // the file has been written by a remote update
+            if (newHash === cachedFile.hash) {
                 return;
             }
-            try {
-                await this.apiClient.deleteFile(fileId);
-                this.fileCache.deleteById(fileId);
 
-                const msg: EventMessage = {
-                    type: MessageType.Delete,
-                    fileId: fileId,
-                    objectType: "file",
-                    workspacePath: fileFromCache.workspacePath,
-                };
-                this.wsClient.sendMessage(msg);
-            } catch (error) {
-                log.error(error);
-            }
+            await this.updateBinary(cachedFile, newContent);
+        } catch (error) {
+            log.error(error);
+        }
+    }
+
+    /**
+     * Replaces the remote content of a binary file and notifies the other clients
+     */
+    private async updateBinary(file: File, content: ArrayBuffer) {
+        log.debug(`updating binary "${file.workspacePath}"`);
+        let fileApi: File;
+        try {
+            fileApi = await this.apiClient.updateFileContent(file.id, file.workspacePath, content);
+        } catch (error) {
+            this.recordActivity("outgoing", "update", file.workspacePath, error);
+            throw error;
+        }
+        this.fileCache.create({ ...fileApi, content });
+        this.recordJournal(fileApi.id);
+
+        const msg: EventMessage = {
+            type: MessageType.Update,
+            fileId: fileApi.id,
+            objectType: "file",
+            workspacePath: fileApi.workspacePath,
         };
+        this.wsClient.sendMessage(msg);
+        this.recordActivity(
+            "outgoing",
+            "update",
+            fileApi.workspacePath,
+            undefined,
+            fileApi.version,
+        );
+    }
+
+    private async delete({ file }: { file: TAbstractFile }) {
+        log.debug("[event]: delete", file);
+        if (this.paused) {
+            // the files are reconciled with the journal, the folders are not
+            if (this.fileCache.getFolderByPath(file.path)) {
+                this.pausedFolderDeletions.add(file.path);
+            }
+            return;
+        }
 
         const fileToDelete = this.fileCache.getByPath(file.path);
         if (fileToDelete) {
-            await deleteFile(fileToDelete.id);
+            await this.deleteRemoteFile(fileToDelete.id);
         } else {
-            log.warn(`missing file for deletion: "${file.path}", probably a folder`);
-
-            await Promise.allSettled(
-                this.fileCache
-                    .find((f) => f.workspacePath.startsWith(file.path + path.sep))
-                    .map((f) => deleteFile(f.id)),
+            const folderFiles = this.fileCache.find((f) =>
+                f.workspacePath.startsWith(file.path + path.sep),
             );
+            const folder = this.fileCache.getFolderByPath(file.path);
+            if (folderFiles.length === 0 && !folder && !this.filter.isSynced(file.path)) {
+                log.debug(`"${file.path}" is excluded, skipping`);
+                return;
+            }
+
+            if (
+                this.isMassDeletion(folderFiles.length, this.fileCache.find(() => true).length) &&
+                !(await this.confirmDeletion(
+                    "local",
+                    folderFiles.map((f) => f.workspacePath),
+                ))
+            ) {
+                log.warn(`deletion of "${file.path}" not confirmed, restoring it`);
+                await this.restoreLocalFolder(file.path, folderFiles);
+                return;
+            }
+
+            log.debug(`deleting folder "${file.path}"`);
+
+            await Promise.allSettled(folderFiles.map((f) => this.deleteRemoteFile(f.id)));
+            await this.deleteRemoteFolders(file.path);
 
             const msg: EventMessage = {
                 type: MessageType.Delete,
-                fileId: 0,
+                fileId: folder?.id ?? 0,
                 objectType: "folder",
                 workspacePath: file.path,
             };
@@ -679,14 +2538,148 @@ export class Syncinator {
         }
     }
 
+    // deletes from remote the folders deleted while paused, unless they were created again
+    private async deletePausedFolders() {
+        for (const folderpath of this.pausedFolderDeletions) {
+            if (await this.storage.exists(folderpath)) {
+                continue;
+            }
+
+            log.info(`"${folderpath}" was deleted while paused`);
+            const folder = this.fileCache.getFolderByPath(folderpath);
+            await this.deleteRemoteFolders(folderpath);
+
+            const msg: EventMessage = {
+                type: MessageType.Delete,
+                fileId: folder?.id ?? 0,
+                objectType: "folder",
+                workspacePath: folderpath,
+            };
+            this.wsClient.sendMessage(msg);
+        }
+        this.pausedFolderDeletions.clear();
+    }
+
+    private async deleteRemoteFile(fileId: number) {
+        const fileFromCache = this.fileCache.getById(fileId);
+        if (!fileFromCache) {
+            // should be unreachable
+            log.error(`trying to delete a non existing file ${fileId}`);
+            return;
+        }
+        try {
+            await this.apiClient.deleteFile(fileId);
+            this.fileCache.deleteById(fileId);
+            this.contracts.journal.delete(fileId);
+
+            const msg: EventMessage = {
+                type: MessageType.Delete,
+                fileId: fileId,
+                objectType: "file",
+                workspacePath: fileFromCache.workspacePath,
+            };
+            this.wsClient.sendMessage(msg);
+            this.recordActivity("outgoing", "delete", fileFromCache.workspacePath);
+        } catch (error) {
+            log.error(error);
+            this.recordActivity("outgoing", "delete", fileFromCache.workspacePath, error);
+        }
+    }
+
+    // downloads again the folder deleted locally, when the deletion is not confirmed
+    private async restoreLocalFolder(folderpath: string, files: File[]) {
+        for (const folder of this.foldersIn(folderpath)) {
+            if (!(await this.storage.exists(folder.workspacePath))) {
+                await this.storage.write(folder.workspacePath, "", { isDir: true });
+            }
+        }
+
+        for (const file of files) {
+            if (this.fileCache.isPlaceholder(file.id)) {
+                continue;
+            }
+
+            try {
+                const remoteFile = await this.apiClient.fetchFile(file.id);
+                this.fileCache.create(remoteFile);
+                this.recordJournal(remoteFile.id);
+                await this.storage.write(remoteFile.workspacePath, remoteFile.content, {
+                    force: true,
+                });
+            } catch (error) {
+                log.error(`error while restoring "${file.workspacePath}"`, error);
+            }
+        }
+    }
+
+    // deletes the folder and its subfolders from remote, children first
+    private async deleteRemoteFolders(folderpath: string) {
+        const folders = this.foldersIn(folderpath).sort((a, b) =>
+            b.workspacePath.localeCompare(a.workspacePath),
+        );
+
+        for (const folder of folders) {
+            try {
+                await this.apiClient.deleteFolder(folder.id);
+                this.fileCache.deleteFolderById(folder.id);
+            } catch (error) {
+                log.error(`error while deleting folder "${folder.workspacePath}"`, error);
+            }
+        }
+    }
+
+    // renames the folder and its subfolders in remote
+    private async renameRemoteFolders(oldPath: string, newPath: string) {
+        for (const folder of this.foldersIn(oldPath)) {
+            const folderpath = newPath + folder.workspacePath.slice(oldPath.length);
+
+            try {
+                if (!this.filter.isFolderSynced(folderpath)) {
+                    await this.apiClient.deleteFolder(folder.id);
+                    this.fileCache.deleteFolderById(folder.id);
+                    continue;
+                }
+
+                const updatedFolder = await this.apiClient.updateFolder(folder.id, folderpath);
+                this.fileCache.setFolderPath(folder.id, updatedFolder.workspacePath);
+            } catch (error) {
+                log.error(`error while renaming folder "${folder.workspacePath}"`, error);
+            }
+        }
+    }
+
     private async rename({ file, oldPath }: { file: TAbstractFile; oldPath: string }) {
         log.debug("[event]: rename", oldPath, file);
+        if (this.paused) {
+            return;
+        }
         const fileToRename = this.fileCache.getByPath(oldPath);
+
+        // the file crossed the boundary of the synced files
+        if (fileToRename && !this.filter.isSynced(file.path)) {
+            log.info(`"${file.path}" moved to an excluded path, removing it from remote`);
+            await this.deleteRemoteFile(fileToRename.id);
+            return;
+        }
+        if (!fileToRename && !this.filter.isSynced(oldPath) && this.filter.isSynced(file.path)) {
+            const stat = await this.storage.stat(file.path);
+            if (stat?.type === "file") {
+                log.info(`"${file.path}" moved from an excluded path, pushing it`);
+                try {
+                    await this.pushLocalFile(file.path, await this.storage.read(file.path));
+                } catch (error) {
+                    log.error(error);
+                }
+                return;
+            }
+        }
+
         if (fileToRename) {
             try {
                 const updatedFile = await this.apiClient.updateFile(fileToRename.id, file.path);
                 this.fileCache.setPath(fileToRename.id, updatedFile.workspacePath);
                 this.fileCache.setUpdatedAt(fileToRename.id, updatedFile.updatedAt);
+                this.recordJournal(fileToRename.id);
 
                 const msg: EventMessage = {
                     type: MessageType.Rename,
@@ -695,12 +2688,15 @@ export class Syncinator {
                     workspacePath: oldPath,
                 };
                 this.wsClient.sendMessage(msg);
+                this.recordActivity("outgoing", "rename", file.path);
             } catch (error) {
                 log.error(error);
+                this.recordActivity("outgoing", "rename", file.path, error);
                 return;
             }
         } else {
-            log.warn(`missing file for rename: "${oldPath}", probably a folder`);
+            log.debug(`renaming folder "${oldPath}"`);
+            const folder = this.fileCache.getFolderByPath(oldPath);
             const oldWorkspacePath = oldPath.endsWith(path.sep) ? oldPath : oldPath + path.sep;
 
             const folderFiles = await this.storage.listFiles({
@@ -714,6 +2710,13 @@ export class Syncinator {
                 const oldFilePath = fileToRename.workspacePath;
                 const newFilePath = oldFilePath.replace(oldPath, file.path);
 
+                if (!this.filter.isSynced(newFilePath)) {
+                    log.info(`"${newFilePath}" moved to an excluded path, removing it from remote`);
+                    await this.deleteRemoteFile(fileToRename.id);
+                    this.storage.rename(oldFilePath, newFilePath);
+                    return;
+                }
+
                 try {
                     const updatedFile = await this.apiClient.updateFile(
                         fileToRename.id,
@@ -723,17 +2726,21 @@ export class Syncinator {
                     // Update cache and storage with the new file path
                     this.fileCache.setUpdatedAt(fileToRename.id, updatedFile.updatedAt);
                     this.fileCache.setPath(fileToRename.id, updatedFile.workspacePath);
+                    this.recordJournal(fileToRename.id);
                     this.storage.rename(oldFilePath, updatedFile.workspacePath);
+                    this.recordActivity("outgoing", "rename", updatedFile.workspacePath);
                 } catch (error) {
                     log.error(`Failed to update file "${fileToRename.id}": ${error.message}`);
+                    this.recordActivity("outgoing", "rename", newFilePath, error);
                 }
             });
 
             await Promise.allSettled(renamePromises);
+            await this.renameRemoteFolders(oldPath, file.path);
 
             const msg: EventMessage = {
                 type: MessageType.Rename,
-                fileId: 0,
+                fileId: folder?.id ?? 0,
                 objectType: "folder",
                 workspacePath: oldPath,
             };
@@ -795,17 +2802,29 @@ export class Syncinator {
                 snapshot.version,
             );
 
-            const mergedContent = await this.contracts.diffModal(
-                cachedFile.workspacePath,
-                {
-                    content: cachedFile.content as string,
-                    lastUpdate: new Date(cachedFile.updatedAt),
-                },
-                {
-                    content: snapshotWithContent.content as string,
-                    lastUpdate: new Date(snapshotWithContent.createdAt),
-                },
+            const outcome = await this.queueModal(() =>
+                this.contracts.diffModal(
+                    cachedFile.workspacePath,
+                    {
+                        content: cachedFile.content as string,
+                        lastUpdate: new Date(cachedFile.updatedAt),
+                    },
+                    {
+                        content: snapshotWithContent.content as string,
+                        lastUpdate: new Date(snapshotWithContent.createdAt),
+                    },
+                ),
+            );
+
+            const mergedContent = outcomeContent(
+                outcome,
+                cachedFile.content as string,
+                snapshotWithContent.content as string,
             );
+            if (mergedContent === null) {
+                log.debug(`[snapshot]: restore of "${cachedFile.workspacePath}" deferred`);
+                return;
+            }
 
             const chunks = computeDiff(cachedFile.content as string, mergedContent);
 
@@ -834,9 +2853,71 @@ export class Syncinator {
                     version,
                 };
                 this.messageQueueRegistry.getDeque(fileId).addBack(msg);
+                this.chunkSentAt.set(msg, performance.now());
                 this.wsClient.sendMessage(msg);
             }
+            this.recordJournal(fileId);
+        }
+    }
+
+    private recordActivity(
+        direction: ActivityEntry["direction"],
+        operation: ActivityOperation,
+        workspacePath: string,
+        error?: unknown,
+        version?: number,
+    ) {
+        this.contracts.activityLog?.record({
+            direction,
+            path: workspacePath,
+            operation,
+            version,
+            outcome: error === undefined ? "success" : "error",
+            error: error === undefined ? undefined : errorMessage(error),
+        });
+    }
+
+    // the files already in sync are not recorded
+    private recordReconcileActivity(file: File, outcome: PromiseSettledResult<ReconcileOutcome>) {
+        if (outcome.status === "rejected") {
+            this.recordActivity("incoming", "update", file.workspacePath, outcome.reason);
+            return;
+        }
+
+        const operations: Partial<Record<ReconcileOutcome, ActivityOperation>> = {
+            created: "create",
+            updated: "update",
+            conflicted: "conflict",
+        };
+        const operation = operations[outcome.value];
+        if (operation) {
+            this.recordActivity("incoming", operation, file.workspacePath, undefined, file.version);
+        }
+    }
+
+    /**
+     * Stores in the journal the last synced state of the file, with its
+     * unacknowledged chunks
+     */
+    private recordJournal(fileId: number) {
+        const file = this.fileCache.getById(fileId);
+        if (!file) {
+            this.contracts.journal.delete(fileId);
+            return;
         }
+
+        const pending = this.messageQueueRegistry.hasDeque(fileId)
+            ? this.messageQueueRegistry.getDeque(fileId).toArray()
+            : [];
+
+        this.contracts.journal.set({
+            fileId: file.id,
+            workspacePath: file.workspacePath,
+            version: file.version,
+            base: typeof file.content === "string" ? file.content : null,
+            pending,
+            placeholder: this.fileCache.isPlaceholder(file.id),
+        });
     }
 
     cacheDump() {
@@ -844,6 +2925,29 @@ export class Syncinator {
     }
 }
 
+// returns the content to keep for the merge outcome, null if deferred
+function outcomeContent(outcome: MergeOutcome, local: string, remote: string): string | null {
+    switch (outcome.type) {
+        case "merged":
+            return outcome.content;
+        case "keep-local":
+            return local;
+        case "keep-remote":
+            return remote;
+        case "deferred":
+            return null;
+    }
+}
+
+// the operation has been created by the message, the chunks are stored as sent
+function isAppliedChunkMessage(operation: Operation, msg: ChunkMessage): boolean {
+    return (
+        operation.version > msg.version &&
+        operation.operation.length === msg.chunks.length &&
+        operation.operation.every((chunk, i) => shallowEqualStrict(chunk, msg.chunks[i]))
+    );
+}
+
 function isSameChunkMessage(fromWs: ChunkMessage, fromDeque: ChunkMessage): boolean {
     if (fromWs.chunks.length !== fromDeque.chunks.length) {
         return false;
@@ -861,3 +2965,84 @@ function isSameChunkMessage(fromWs: ChunkMessage, fromDeque: ChunkMessage): bool
 
     return sameVersion && sameType;
 }
+
+const EVENT_OPERATIONS: Partial<Record<MessageType, ActivityOperation>> = {
+    [MessageType.Create]: "create",
+    [MessageType.Delete]: "delete",
+    [MessageType.Rename]: "rename",
+    [MessageType.Update]: "update",
+};
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+// counts the outcomes of the reconciled files, the failed ones are skipped
+// the steps shown to confirm the plan
+function planSteps(plan: ReconcilePlan): ReconcileStep[] {
+    const steps: ReconcileStep[] = [];
+    for (const [file, newPath] of plan.renames) {
+        steps.push({ action: "rename", path: file.workspacePath, detail: `to "${newPath}"` });
+    }
+    for (const file of plan.files) {
+        const filepath = plan.renames.get(file) ?? file.workspacePath;
+        const step = describeFileAction(filepath, plan.actions.get(file.id) as FileAction);
+        if (step) {
+            steps.push(step);
+        }
+    }
+    for (const filepath of plan.uploads) {
+        steps.push({ action: "upload", path: filepath });
+    }
+    return steps;
+}
+
+// the files planned to be deleted whose deletion is not applied, e.g. not confirmed, are restored
+function plannedAction(plan: ReconcilePlan, fileId: number): FileAction {
+    const action = plan.actions.get(fileId) as FileAction;
+    if (action.type !== "delete") {
+        return action;
+    }
+    return planFileAction({ ...(plan.facts.get(fileId) as FileFacts), deletedVersion: undefined });
+}
+
+function summarize(outcomes: PromiseSettledResult<ReconcileOutcome | undefined>[]): SyncSummary {
+    const summary: SyncSummary = { created: 0, updated: 0, conflicted: 0, skipped: 0, failed: 0 };
+    for (const outcome of outcomes) {
+        if (outcome.status === "rejected") {
+            summary.failed++;
+        } else if (outcome.value !== undefined) {
+            summary[outcome.value]++;
+        }
+    }
+    return summary;
+}
+
+function mergeSummaries(a: SyncSummary, b: SyncSummary): SyncSummary {
+    return {
+        created: a.created + b.created,
+        updated: a.updated + b.updated,
+        conflicted: a.conflicted + b.conflicted,
+        skipped: a.skipped + b.skipped,
+        failed: a.failed + b.failed,
+    };
+}
+
+function byteLength(content: string | ArrayBuffer): number {
+    return typeof content === "string"
+        ? new TextEncoder().encode(content).byteLength
+        : content.byteLength;
+}
+
+// checks if the link, written in the source file, points to the given path
+function matchesLink(filepath: string, link: string, sourcePath: string): boolean {
+    if (link === "") {
+        return false;
+    }
+
+    return (
+        filepath === link ||
+        filepath.endsWith(path.sep + link) ||
+        filepath === path.join(path.dirname(sourcePath), link)
+    );
+}
@@ -0,0 +1,112 @@
+import assert from "node:assert";
+import { describe, test } from "node:test";
+import type { File } from "./api/api";
+import {
+    type FileAction,
+    type FileFacts,
+    describeFileAction,
+    planFileAction,
+} from "./reconciliation";
+
+function createFile(mimeType: string): File {
+    return {
+        id: 1,
+        diskPath: "",
+        workspacePath: "files/file",
+        mimeType,
+        hash: "remote",
+        createdAt: "",
+        updatedAt: "",
+        workspaceId: 1,
+        version: 3,
+    };
+}
+
+const entry = {
+    fileId: 1,
+    workspacePath: "files/file",
+    version: 2,
+    base: "base",
+    pending: [],
+};
+
+describe("planFileAction", () => {
+    const text = createFile("text/markdown");
+    const binary = createFile("image/png");
+
+    const tests: { name: string; facts: FileFacts; expected: FileAction }[] = [
+        {
+            name: "downloads the files missing locally",
+            facts: { file: text, lazy: false, strategy: "remote" },
+            expected: { type: "download", lazy: false },
+        },
+        {
+            name: "skips the files in sync",
+            facts: { file: text, localHash: "remote", lazy: false, strategy: "remote" },
+            expected: { type: "skip" },
+        },
+        {
+            name: "deletes the files deleted locally",
+            facts: { file: text, lazy: false, deletedVersion: 3, strategy: "remote" },
+            expected: { type: "delete" },
+        },
+        {
+            name: "restores the files modified in remote after their deletion",
+            facts: { file: text, lazy: true, deletedVersion: 2, strategy: "remote" },
+            expected: { type: "download", lazy: true },
+        },
+        {
+            name: "rebases the offline changes",
+            facts: { file: text, localHash: "local", lazy: false, entry, strategy: "merge" },
+            expected: { type: "rebase", strategy: "merge" },
+        },
+        {
+            name: "merges with three-way merge without rebasing",
+            facts: { file: text, localHash: "local", lazy: false, entry, strategy: "three-way" },
+            expected: { type: "resolve", strategy: "three-way" },
+        },
+        {
+            name: "doesn't rebase without a base",
+            facts: {
+                file: text,
+                localHash: "local",
+                lazy: false,
+                entry: { ...entry, base: null },
+                strategy: "local",
+            },
+            expected: { type: "resolve", strategy: "local" },
+        },
+        {
+            name: "keeps both binaries instead of merging them",
+            facts: { file: binary, localHash: "local", lazy: false, entry, strategy: "merge" },
+            expected: { type: "resolve", strategy: "keep-both" },
+        },
+        {
+            name: "overwrites the binaries",
+            facts: { file: binary, localHash: "local", lazy: false, strategy: "remote" },
+            expected: { type: "resolve", strategy: "remote" },
+        },
+    ];
+
+    for (const tt of tests) {
+        test(`should ${tt.name}`, () => {
+            assert.deepEqual(planFileAction(tt.facts), tt.expected);
+        });
+    }
+});
+
+describe("describeFileAction", () => {
+    test("should describe the actions as plan steps", () => {
+        assert.equal(describeFileAction("a.md", { type: "skip" }), null);
+        assert.deepEqual(describeFileAction("a.md", { type: "download", lazy: true }), {
+            action: "download",
+            path: "a.md",
+            detail: "on demand",
+        });
+        assert.deepEqual(describeFileAction("a.md", { type: "resolve", strategy: "keep-both" }), {
+            action: "download",
+            path: "a.md",
+            detail: "local copy kept as a conflict copy",
+        });
+    });
+});
@@ -0,0 +1,94 @@
+import type { File } from "./api/api";
+import type { JournalEntry } from "./journal";
+import type { ReconcileStep } from "./modals/plan";
+import type { ConflictResolution } from "./plugin";
+import { isTextMime } from "./utils/mime";
+
+// what is known of a remote file and of its local copy before reconciling it
+export interface FileFacts {
+    file: File;
+    // hash of the local copy, undefined if it is missing locally
+    localHash?: string;
+    // the file is downloaded on demand
+    lazy: boolean;
+    entry?: JournalEntry;
+    // last synced version of the file deleted locally, undefined if it isn't
+    deletedVersion?: number;
+    strategy: ConflictResolution;
+}
+
+export type FileAction =
+    | { type: "skip" }
+    | { type: "download"; lazy: boolean }
+    | { type: "delete" }
+    // the offline changes are rebased on the remote ones, solving the conflict
+    // with the strategy if they can't be
+    | { type: "rebase"; strategy: ConflictResolution }
+    | { type: "resolve"; strategy: ConflictResolution };
+
+/**
+ * Decides how the reconciliation aligns the local copy of a file with its
+ * remote version. Both the plan shown to the user and the reconciliation
+ * itself are based on it.
+ */
+export function planFileAction(facts: FileFacts): FileAction {
+    const { file, entry, strategy } = facts;
+
+    // the files modified in remote after the deletion are restored
+    if (facts.deletedVersion !== undefined && file.version <= facts.deletedVersion) {
+        return { type: "delete" };
+    }
+    if (facts.localHash === undefined) {
+        return { type: "download", lazy: facts.lazy };
+    }
+    if (facts.localHash === file.hash) {
+        return { type: "skip" };
+    }
+
+    // binaries can't be merged, both versions are kept
+    if (!isTextMime(file.mimeType)) {
+        return {
+            type: "resolve",
+            strategy: strategy === "local" || strategy === "remote" ? strategy : "keep-both",
+        };
+    }
+
+    // the three-way merge already takes care of the offline changes
+    if (strategy !== "three-way" && entry && entry.base !== null && entry.version <= file.version) {
+        return { type: "rebase", strategy };
+    }
+    return { type: "resolve", strategy };
+}
+
+// the step shown in the plan for the action, null if there is nothing to do
+export function describeFileAction(filepath: string, action: FileAction): ReconcileStep | null {
+    switch (action.type) {
+        case "skip":
+            return null;
+        case "download":
+            return action.lazy
+                ? { action: "download", path: filepath, detail: "on demand" }
+                : { action: "download", path: filepath };
+        case "delete":
+            return { action: "delete", path: filepath, detail: "deleted while offline" };
+        case "rebase":
+            return { action: "merge", path: filepath, detail: "offline changes rebased on remote" };
+        case "resolve":
+            switch (action.strategy) {
+                case "remote":
+                    return { action: "overwrite", path: filepath, detail: "remote wins" };
+                case "local":
+                    return { action: "overwrite", path: filepath, detail: "local wins" };
+                case "merge":
+                    return { action: "merge", path: filepath, detail: "with the merge tool" };
+                case "three-way":
+                    return { action: "merge", path: filepath, detail: "three-way merge" };
+                case "keep-both":
+                    return {
+                        action: "download",
+                        path: filepath,
+                        detail: "local copy kept as a conflict copy",
+                    };
+            }
+    }
+}
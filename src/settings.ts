@@ -1,7 +1,8 @@
 import type { App } from "obsidian";
 import { Notice, PluginSettingTab, Setting } from "obsidian";
 import type Syncinator from "../main";
-import { LogLevel, type LogLevelType, log } from "./logger/logger";
+import type { ConfigCategory } from "./config/configSync";
+import { LOG_MODULES, LogLevel, type LogLevelType, type LogModule, log } from "./logger/logger";
 import type { ConflictResolution } from "./plugin";
 
 export interface PluginSettings {
@@ -10,10 +11,32 @@ export interface PluginSettings {
     workspaceName: string;
     workspacePass: string;
     logLevel: LogLevelType;
+    // modules logging with a level other than the global one
+    moduleLogLevels: Partial<Record<LogModule, LogLevelType>>;
+    // writes the logs in a rotated file of the plugin folder too
+    logToFile: boolean;
     conflictResolution: ConflictResolution;
     nickname: string;
     color: `#${string}`;
     showCursors: boolean;
+    // megabytes, 0 downloads every file at startup
+    lazyDownloadThreshold: number;
+    prefetchBudget: number;
+    // glob rules, a path is synced if it matches an include rule (or there are none)
+    // and no exclude rule
+    includePatterns: string[];
+    excludePatterns: string[];
+    configSync: boolean;
+    configCategories: ConfigCategory[];
+    // deletions beyond these limits must be confirmed, 0 disables them
+    massDeletionCount: number;
+    massDeletionPercentage: number;
+    // keeps a copy of the files deleted or overwritten by remote
+    useTrash: boolean;
+    // days, 0 keeps the files forever
+    trashRetentionDays: number;
+    // the changes computed at startup are applied only if confirmed
+    previewReconciliation: boolean;
 }
 
 export const DEFAULT_SETTINGS: PluginSettings = {
@@ -22,10 +45,39 @@ export const DEFAULT_SETTINGS: PluginSettings = {
     workspaceName: "",
     workspacePass: "",
     logLevel: LogLevel.WARN,
+    moduleLogLevels: {},
+    logToFile: false,
     conflictResolution: "merge",
     nickname: "",
     color: "#ff0000",
     showCursors: true,
+    lazyDownloadThreshold: 0,
+    prefetchBudget: 100,
+    includePatterns: [],
+    excludePatterns: [".trash/"],
+    configSync: false,
+    configCategories: ["appearance", "hotkeys", "core-plugins"],
+    massDeletionCount: 20,
+    massDeletionPercentage: 25,
+    useTrash: true,
+    trashRetentionDays: 30,
+    previewReconciliation: false,
+};
+
+const LOG_LEVEL_OPTIONS: Record<string, string> = {
+    "0": "Silent",
+    "1": "Debug",
+    "2": "Info",
+    "3": "Warn",
+    "4": "Error",
+};
+
+const CONFIG_CATEGORIES: Record<ConfigCategory, string> = {
+    appearance: "Appearance, themes and snippets",
+    hotkeys: "Hotkeys",
+    "core-plugins": "Core plugins",
+    "community-plugins": "Community plugins list",
+    "plugin-data": "Plugins data",
 };
 
 export class SettingTab extends PluginSettingTab {
@@ -122,6 +174,61 @@ export class SettingTab extends PluginSettingTab {
                     }),
             );
 
+        containerEl.createEl("h3", { text: "Selective sync" });
+
+        new Setting(containerEl)
+            .setName("Include")
+            .setDesc("glob rules of the paths to sync, one per line. Empty syncs every path")
+            .addTextArea((text) =>
+                text
+                    .setPlaceholder("notes/\n*.png")
+                    .setValue(this.plugin.settings.includePatterns.join("\n"))
+                    .onChange((value) => {
+                        this.plugin.settings.includePatterns = parsePatterns(value);
+                    }),
+            );
+
+        new Setting(containerEl)
+            .setName("Exclude")
+            .setDesc("glob rules of the paths not to sync, one per line")
+            .addTextArea((text) =>
+                text
+                    .setPlaceholder(".trash/\nvideos/**/*.mp4")
+                    .setValue(this.plugin.settings.excludePatterns.join("\n"))
+                    .onChange((value) => {
+                        this.plugin.settings.excludePatterns = parsePatterns(value);
+                    }),
+            );
+
+        containerEl.createEl("h3", { text: "Configuration sync" });
+
+        new Setting(containerEl)
+            .setName("Sync configuration")
+            .setDesc("sync the selected categories of the vault configuration, requires a restart")
+            .addToggle((toggle) =>
+                toggle.setValue(this.plugin.settings.configSync).onChange((value) => {
+                    this.plugin.settings.configSync = value;
+                }),
+            );
+
+        for (const [category, name] of Object.entries(CONFIG_CATEGORIES)) {
+            new Setting(containerEl).setName(name).addToggle((toggle) =>
+                toggle
+                    .setValue(
+                        this.plugin.settings.configCategories.includes(category as ConfigCategory),
+                    )
+                    .onChange((value) => {
+                        const categories = this.plugin.settings.configCategories.filter(
+                            (c) => c !== category,
+                        );
+                        if (value) {
+                            categories.push(category as ConfigCategory);
+                        }
+                        this.plugin.settings.configCategories = categories;
+                    }),
+            );
+        }
+
         containerEl.createEl("h3", { text: "Advanced" });
 
         new Setting(containerEl)
@@ -131,8 +238,10 @@ export class SettingTab extends PluginSettingTab {
                 component
                     .addOptions({
                         merge: "Use merge tool",
+                        "three-way": "Three-way merge",
                         remote: "Remote",
                         local: "Local",
+                        "keep-both": "Keep both",
                     })
                     .setValue(this.plugin.settings.conflictResolution.toString())
                     .onChange((value: ConflictResolution) => {
@@ -140,18 +249,118 @@ export class SettingTab extends PluginSettingTab {
                     }),
             );
 
+        new Setting(containerEl)
+            .setName("Download on demand")
+            .setDesc(
+                "attachments larger than this size (MB) are downloaded when opened or linked, 0 disables it",
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("0")
+                    .setValue(this.plugin.settings.lazyDownloadThreshold.toString())
+                    .onChange((value) => {
+                        const size = Number(value);
+                        if (Number.isNaN(size) || size < 0) {
+                            return;
+                        }
+                        this.plugin.settings.lazyDownloadThreshold = size;
+                    }),
+            );
+
+        new Setting(containerEl)
+            .setName("Prefetch budget")
+            .setDesc("size (MB) of on demand attachments downloaded in background after startup")
+            .addText((text) =>
+                text
+                    .setPlaceholder("100")
+                    .setValue(this.plugin.settings.prefetchBudget.toString())
+                    .onChange((value) => {
+                        const size = Number(value);
+                        if (Number.isNaN(size) || size < 0) {
+                            return;
+                        }
+                        this.plugin.settings.prefetchBudget = size;
+                    }),
+            );
+
+        new Setting(containerEl)
+            .setName("Preview startup changes")
+            .setDesc(
+                "list the changes computed at startup and apply them only when confirmed, useful on a new device",
+            )
+            .addToggle((toggle) =>
+                toggle.setValue(this.plugin.settings.previewReconciliation).onChange((value) => {
+                    this.plugin.settings.previewReconciliation = value;
+                }),
+            );
+
+        new Setting(containerEl)
+            .setName("Mass deletion count")
+            .setDesc("ask confirmation before deleting more files than this at once, 0 disables it")
+            .addText((text) =>
+                text
+                    .setPlaceholder("20")
+                    .setValue(this.plugin.settings.massDeletionCount.toString())
+                    .onChange((value) => {
+                        const count = Number(value);
+                        if (!Number.isInteger(count) || count < 0) {
+                            return;
+                        }
+                        this.plugin.settings.massDeletionCount = count;
+                    }),
+            );
+
+        new Setting(containerEl)
+            .setName("Mass deletion percentage")
+            .setDesc(
+                "ask confirmation before deleting more than this percentage of the vault at once, 0 disables it",
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("25")
+                    .setValue(this.plugin.settings.massDeletionPercentage.toString())
+                    .onChange((value) => {
+                        const percentage = Number(value);
+                        if (Number.isNaN(percentage) || percentage < 0 || percentage > 100) {
+                            return;
+                        }
+                        this.plugin.settings.massDeletionPercentage = percentage;
+                    }),
+            );
+
+        new Setting(containerEl)
+            .setName("Trash")
+            .setDesc(
+                "keep a copy of the files deleted or overwritten by other devices, requires a restart",
+            )
+            .addToggle((toggle) =>
+                toggle.setValue(this.plugin.settings.useTrash).onChange((value) => {
+                    this.plugin.settings.useTrash = value;
+                }),
+            );
+
+        new Setting(containerEl)
+            .setName("Trash retention")
+            .setDesc("days the files are kept in the trash, 0 keeps them forever")
+            .addText((text) =>
+                text
+                    .setPlaceholder("30")
+                    .setValue(this.plugin.settings.trashRetentionDays.toString())
+                    .onChange((value) => {
+                        const days = Number(value);
+                        if (!Number.isInteger(days) || days < 0) {
+                            return;
+                        }
+                        this.plugin.settings.trashRetentionDays = days;
+                    }),
+            );
+
         new Setting(containerEl)
             .setName("Log level")
             .setDesc("set console log level")
             .addDropdown((component) =>
                 component
-                    .addOptions({
-                        "0": "Silent",
-                        "1": "Debug",
-                        "2": "Info",
-                        "3": "Warn",
-                        "4": "Error",
-                    })
+                    .addOptions(LOG_LEVEL_OPTIONS)
                     .setValue(this.plugin.settings.logLevel.toString())
                     .onChange((value) => {
                         this.plugin.settings.logLevel = Number(value) as LogLevelType;
@@ -159,6 +368,40 @@ export class SettingTab extends PluginSettingTab {
                     }),
             );
 
+        for (const module of LOG_MODULES) {
+            new Setting(containerEl)
+                .setName(`Log level of ${module}`)
+                .setDesc("overrides the log level for the module")
+                .addDropdown((component) =>
+                    component
+                        .addOptions({
+                            default: "Default",
+                            ...LOG_LEVEL_OPTIONS,
+                        })
+                        .setValue(
+                            this.plugin.settings.moduleLogLevels[module]?.toString() ?? "default",
+                        )
+                        .onChange((value) => {
+                            const level =
+                                value === "default" ? undefined : (Number(value) as LogLevelType);
+                            this.plugin.settings.moduleLogLevels = {
+                                ...this.plugin.settings.moduleLogLevels,
+                                [module]: level,
+                            };
+                            log.setModuleLevel(module, level);
+                        }),
+                );
+        }
+
+        new Setting(containerEl)
+            .setName("Log to file")
+            .setDesc("write the logs in the plugin folder too, requires a restart")
+            .addToggle((toggle) =>
+                toggle.setValue(this.plugin.settings.logToFile).onChange((value) => {
+                    this.plugin.settings.logToFile = value;
+                }),
+            );
+
         new Setting(containerEl).addButton((button) =>
             button
                 .setButtonText("save")
@@ -185,6 +428,13 @@ function createInfoBox(parentEl: HTMLElement): HTMLElement {
     return infoBox;
 }
 
+function parsePatterns(value: string): string[] {
+    return value
+        .split("\n")
+        .map((pattern) => pattern.trim())
+        .filter((pattern) => pattern !== "");
+}
+
 function isValidHexColor(color: string): boolean {
     const hexColorRegex = /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/;
     return hexColorRegex.test(color);
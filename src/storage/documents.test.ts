@@ -0,0 +1,57 @@
+import assert from "node:assert";
+import test, { describe } from "node:test";
+import { sleep } from "../utils/sleep";
+import { type DocumentStore, DocumentWriter } from "./documents";
+
+function createMemoryStore(): DocumentStore & { documents: Map<string, string>; saves: number } {
+    const documents = new Map<string, string>();
+
+    return {
+        documents,
+        saves: 0,
+        async load(key: string) {
+            return documents.get(key) ?? null;
+        },
+        async save(key: string, data: string) {
+            this.saves++;
+            documents.set(key, data);
+        },
+        async remove(key: string) {
+            documents.delete(key);
+        },
+    };
+}
+
+describe("DocumentWriter", () => {
+    test("should coalesce the changes made before the delay", async () => {
+        const store = createMemoryStore();
+        let value = 0;
+        const writer = new DocumentWriter(store, () => value.toString(), 20);
+
+        for (let i = 1; i <= 10; i++) {
+            value = i;
+            writer.markDirty("counter");
+        }
+        assert.equal(store.saves, 0);
+
+        await sleep(50);
+        assert.equal(store.saves, 1);
+        assert.equal(store.documents.get("counter"), "10");
+    });
+
+    test("should write and remove the documents on flush", async () => {
+        const store = createMemoryStore();
+        store.documents.set("removed", "{}");
+        const writer = new DocumentWriter(
+            store,
+            (key) => (key === "removed" ? null : JSON.stringify({ key })),
+            60_000,
+        );
+
+        writer.markDirty("kept");
+        writer.markDirty("removed");
+        await writer.flush();
+
+        assert.deepEqual([...store.documents.entries()], [["kept", '{"key":"kept"}']]);
+    });
+});
@@ -0,0 +1,86 @@
+import { log as rootLog } from "src/logger/logger";
+
+const log = rootLog.child("storage");
+
+/**
+ * A store of JSON documents identified by a key, e.g. one file each in a
+ * folder of the plugin
+ */
+export interface DocumentStore {
+    load(key: string): Promise<string | null>;
+    save(key: string, data: string): Promise<void>;
+    // removing a missing document is not an error
+    remove(key: string): Promise<void>;
+}
+
+/**
+ * DocumentWriter writes the changed documents to the store after a delay, so
+ * that a burst of changes results in a single write of each of them. Writes
+ * are serialized, the documents changed while writing are written afterwards.
+ */
+export class DocumentWriter {
+    private store: DocumentStore;
+    // returns null if the document has to be removed
+    private serialize: (key: string) => string | null;
+    private delayMs: number;
+    private dirty: Set<string> = new Set();
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private writing: Promise<void> | null = null;
+
+    constructor(store: DocumentStore, serialize: (key: string) => string | null, delayMs = 1000) {
+        this.store = store;
+        this.serialize = serialize;
+        this.delayMs = delayMs;
+    }
+
+    markDirty(key: string) {
+        this.dirty.add(key);
+        this.schedule();
+    }
+
+    /**
+     * Writes the changed documents now, it waits until every one is written
+     */
+    async flush(): Promise<void> {
+        while (this.timer !== null || this.writing) {
+            if (this.timer !== null) {
+                clearTimeout(this.timer);
+                this.start();
+            }
+            await this.writing;
+        }
+    }
+
+    private schedule() {
+        if (this.timer !== null || this.writing || this.dirty.size === 0) {
+            return;
+        }
+        this.timer = setTimeout(() => this.start(), this.delayMs);
+    }
+
+    private start() {
+        this.timer = null;
+        this.writing = this.write().finally(() => {
+            this.writing = null;
+            this.schedule();
+        });
+    }
+
+    private async write() {
+        const keys = [...this.dirty];
+        this.dirty.clear();
+
+        for (const key of keys) {
+            try {
+                const data = this.serialize(key);
+                if (data === null) {
+                    await this.store.remove(key);
+                } else {
+                    await this.store.save(key, data);
+                }
+            } catch (error) {
+                log.error(`error while saving "${key}"`, error);
+            }
+        }
+    }
+}
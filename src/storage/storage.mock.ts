@@ -107,6 +107,36 @@ export function CreateVaultMock(basepath: string): Vault {
 
             return filenames;
         },
+        getAllFolders(_includeRoot?: boolean) {
+            const folders: TFolder[] = [];
+
+            let subGetFolders: (basepath: string, subPath: string) => void = () => {};
+            subGetFolders = (basepath: string, subPath: string) => {
+                const items = readdirSync(path.join(basepath, subPath));
+
+                for (const item of items) {
+                    const vaultPath = path.join(subPath, item);
+                    const stat = statSync(path.join(basepath, vaultPath));
+                    if (stat.isDirectory()) {
+                        folders.push({
+                            children: [],
+                            vault: v,
+                            parent: null,
+                            isRoot() {
+                                return false;
+                            },
+                            name: path.basename(vaultPath),
+                            path: vaultPath,
+                        });
+                        subGetFolders(basepath, vaultPath);
+                    }
+                }
+            };
+
+            subGetFolders(basepath, "");
+
+            return folders;
+        },
         getMarkdownFiles() {
             const filenames: TFile[] = [];
 
@@ -119,6 +119,20 @@ describe("Disk storage integration tests", () => {
         assert.deepEqual(await listFilesNames({ prefix: "folder", markdownOnly: true }), [path1]);
     });
 
+    test("should list folders", async () => {
+        const d = new Disk(v);
+
+        await d.write("folders/empty", "", { isDir: true });
+        await d.write("folders/nested/file.md", "");
+
+        const folders = await d.listFolders({ prefix: "folders" });
+        assert.deepEqual(folders.map((folder) => folder.path).sort(), [
+            "folders",
+            "folders/empty",
+            "folders/nested",
+        ]);
+    });
+
     test("should create, read, and delete objects correctly", async (t) => {
         const createFolderMock = t.mock.method(v, "createFolder");
         const getFileByPath = t.mock.method(v, "getFileByPath");
@@ -1,10 +1,13 @@
 import path from "path-browserify";
 import { type DiffChunk, Operation } from "../diff/diff";
 
-import type { Stat, TAbstractFile, TFile, Vault } from "obsidian";
+import type { Stat, TAbstractFile, TFile, TFolder, Vault } from "obsidian";
+import { log as rootLog } from "src/logger/logger";
 import { assert } from "src/utils/assert";
 import { isText } from "./filetype";
 
+const log = rootLog.child("storage");
+
 export type WriteOptions = {
     force?: boolean;
     isDir?: boolean;
@@ -26,6 +29,7 @@ export class Disk {
     }
 
     async rename(oldVaultPath: string, newVaultPath: string): Promise<void> {
+        log.debug(`renaming "${oldVaultPath}" to "${newVaultPath}"`);
         const dirs = this.getIncrementalDirectories(newVaultPath);
         for (const dir of dirs) {
             const exists = await this.exists(dir);
@@ -45,6 +49,7 @@ export class Disk {
         opts: WriteOptions = { force: false, isDir: false },
     ): Promise<void> {
         const { force, isDir } = opts;
+        log.debug(`writing "${vaultPath}"`);
 
         const exists = await this.exists(vaultPath);
         if (exists && !force) {
@@ -79,6 +84,8 @@ export class Disk {
             return;
         }
 
+        log.debug(`deleting "${vaultPath}"`);
+
         await this.vault.delete(toDelete, force);
     }
 
@@ -97,6 +104,16 @@ export class Disk {
         return files;
     }
 
+    async listFolders({ prefix = "" } = {}): Promise<TFolder[]> {
+        let folders = this.vault.getAllFolders(false);
+
+        if (prefix) {
+            folders = folders.filter((folder) => folder.path.startsWith(prefix));
+        }
+
+        return folders;
+    }
+
     async read(vaultPath: string): Promise<string | ArrayBuffer> {
         if (isText(vaultPath)) {
             return await this.readText(vaultPath);
@@ -0,0 +1,93 @@
+import assert from "node:assert";
+import test, { describe } from "node:test";
+import { Trash, type TrashStorage } from "./trash";
+
+function createMemoryStorage(): TrashStorage & { files: Map<string, string | ArrayBuffer> } {
+    const files = new Map<string, string | ArrayBuffer>();
+
+    return {
+        files,
+        async exists(path: string) {
+            return files.has(path) || [...files.keys()].some((file) => file.startsWith(`${path}/`));
+        },
+        async read(path: string) {
+            return files.get(path) as string;
+        },
+        async write(path: string, data: string) {
+            files.set(path, data);
+        },
+        async readBinary(path: string) {
+            return files.get(path) as ArrayBuffer;
+        },
+        async writeBinary(path: string, data: ArrayBuffer) {
+            files.set(path, data);
+        },
+        async mkdir() {},
+        async remove(path: string) {
+            files.delete(path);
+        },
+    };
+}
+
+describe("Trash", () => {
+    const folder = ".obsidian/plugins/syncinator/trash";
+
+    test("should store and read the content", async () => {
+        const trash = new Trash(createMemoryStorage(), folder, 30);
+
+        const entry = await trash.put("notes/foo.md", "lorem ipsum", "deleted");
+
+        assert.deepEqual(trash.list(), [entry]);
+        const content = await trash.read(entry.id);
+        assert.equal(new TextDecoder().decode(content), "lorem ipsum");
+
+        await trash.remove(entry.id);
+        assert.deepEqual(trash.list(), []);
+        await assert.rejects(trash.read(entry.id));
+    });
+
+    test("should persist and reload the entries", async () => {
+        const storage = createMemoryStorage();
+        const trash = new Trash(storage, folder, 30);
+
+        const entry = await trash.put("image.png", new Uint8Array([1, 2]).buffer, "overwritten");
+
+        const reloaded = new Trash(storage, folder, 30);
+        await reloaded.load();
+
+        assert.deepEqual(reloaded.get(entry.id), entry);
+    });
+
+    test("should purge the expired entries", async () => {
+        const storage = createMemoryStorage();
+        const trash = new Trash(storage, folder, 7);
+        const now = new Date("2024-01-10T00:00:00.000Z");
+
+        const expired = await trash.put(
+            "old.md",
+            "",
+            "deleted",
+            new Date("2024-01-01T00:00:00.000Z"),
+        );
+        const recent = await trash.put(
+            "new.md",
+            "",
+            "deleted",
+            new Date("2024-01-05T00:00:00.000Z"),
+        );
+
+        await trash.purge(now);
+
+        assert.deepEqual(trash.list(), [recent]);
+        assert.equal(storage.files.has(`${folder}/${expired.id}`), false);
+    });
+
+    test("should keep the entries without retention", async () => {
+        const trash = new Trash(createMemoryStorage(), folder, 0);
+
+        await trash.put("old.md", "", "deleted", new Date(0));
+        await trash.purge();
+
+        assert.equal(trash.list().length, 1);
+    });
+});
@@ -0,0 +1,149 @@
+import type { DataAdapter } from "obsidian";
+import { log as rootLog } from "src/logger/logger";
+
+const log = rootLog.child("sync");
+
+export type TrashReason = "deleted" | "overwritten";
+
+export interface TrashEntry {
+    id: string;
+    workspacePath: string;
+    reason: TrashReason;
+    trashedAt: string;
+}
+
+export type TrashStorage = Pick<
+    DataAdapter,
+    "exists" | "read" | "write" | "readBinary" | "writeBinary" | "mkdir" | "remove"
+>;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Trash keeps a copy of the local files removed or overwritten because of
+ * remote changes, so that they can be restored. The copies are stored in a
+ * folder outside of the synced paths and removed after the retention period.
+ */
+export class Trash {
+    private storage: TrashStorage;
+    private folder: string;
+    private retentionDays: number;
+    private entries: Map<string, TrashEntry> = new Map();
+
+    constructor(storage: TrashStorage, folder: string, retentionDays: number) {
+        this.storage = storage;
+        this.folder = folder;
+        this.retentionDays = retentionDays;
+    }
+
+    async load(): Promise<void> {
+        this.entries.clear();
+
+        try {
+            if (!(await this.storage.exists(this.indexPath()))) {
+                return;
+            }
+
+            const entries: TrashEntry[] = JSON.parse(await this.storage.read(this.indexPath()));
+            for (const entry of entries) {
+                this.entries.set(entry.id, entry);
+            }
+        } catch (error) {
+            log.error("error while loading trash", error);
+        }
+    }
+
+    /**
+     * Stores a copy of the content, it returns the created entry
+     */
+    async put(
+        workspacePath: string,
+        content: string | ArrayBuffer,
+        reason: TrashReason,
+        now: Date = new Date(),
+    ): Promise<TrashEntry> {
+        const entry: TrashEntry = {
+            id: `${now.getTime().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+            workspacePath,
+            reason,
+            trashedAt: now.toISOString(),
+        };
+
+        const bytes =
+            typeof content === "string"
+                ? (new TextEncoder().encode(content).buffer as ArrayBuffer)
+                : content;
+
+        if (!(await this.storage.exists(this.folder))) {
+            await this.storage.mkdir(this.folder);
+        }
+        await this.storage.writeBinary(this.contentPath(entry.id), bytes);
+
+        this.entries.set(entry.id, entry);
+        await this.save();
+        log.info(`"${workspacePath}" moved to the trash`);
+
+        return entry;
+    }
+
+    get(id: string): TrashEntry | undefined {
+        return this.entries.get(id);
+    }
+
+    list(): TrashEntry[] {
+        return [...this.entries.values()]
+            .map((entry) => ({ ...entry }))
+            .sort((a, b) => b.trashedAt.localeCompare(a.trashedAt));
+    }
+
+    async read(id: string): Promise<ArrayBuffer> {
+        if (!this.entries.has(id)) {
+            throw new Error(`trash entry ${id} not found`);
+        }
+        return await this.storage.readBinary(this.contentPath(id));
+    }
+
+    async remove(id: string): Promise<void> {
+        if (!this.entries.delete(id)) {
+            return;
+        }
+
+        if (await this.storage.exists(this.contentPath(id))) {
+            await this.storage.remove(this.contentPath(id));
+        }
+        await this.save();
+    }
+
+    /**
+     * Removes the entries older than the retention period, 0 keeps them forever
+     */
+    async purge(now: Date = new Date()): Promise<void> {
+        if (this.retentionDays <= 0) {
+            return;
+        }
+
+        const expiration = now.getTime() - this.retentionDays * DAY;
+        for (const entry of this.list()) {
+            if (Date.parse(entry.trashedAt) < expiration) {
+                log.debug(`removing "${entry.workspacePath}" from the trash, expired`);
+                await this.remove(entry.id);
+            }
+        }
+    }
+
+    private async save() {
+        try {
+            await this.storage.write(this.indexPath(), JSON.stringify(this.list()));
+        } catch (error) {
+            log.error("error while saving trash", error);
+        }
+    }
+
+    private indexPath(): string {
+        return `${this.folder}/index.json`;
+    }
+
+    private contentPath(id: string): string {
+        return `${this.folder}/${id}`;
+    }
+}
@@ -0,0 +1,25 @@
+import assert from "node:assert";
+import test from "node:test";
+import { conflictCopyPath } from "./conflictPath";
+
+test("conflictCopyPath", () => {
+    const date = new Date(2025, 0, 2, 3, 4, 5);
+    const tests = [
+        {
+            input: "image.png",
+            expected: "image (conflict laptop 2025-01-02 03-04-05).png",
+        },
+        {
+            input: "files/notes/doc.pdf",
+            expected: "files/notes/doc (conflict laptop 2025-01-02 03-04-05).pdf",
+        },
+        {
+            input: "files/no-extension",
+            expected: "files/no-extension (conflict laptop 2025-01-02 03-04-05)",
+        },
+    ];
+
+    for (const tt of tests) {
+        assert.strictEqual(conflictCopyPath(tt.input, "laptop", date), tt.expected);
+    }
+});
@@ -0,0 +1,17 @@
+import path from "path-browserify";
+
+/**
+ * Returns the path of the conflict copy of a file, in the format
+ * `name (conflict <device> <date>).ext`
+ */
+export function conflictCopyPath(filepath: string, device: string, date: Date): string {
+    const ext = path.extname(filepath);
+    const name = path.basename(filepath, ext);
+    const dir = path.dirname(filepath);
+
+    const pad = (n: number) => n.toString().padStart(2, "0");
+    const formattedDate = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
+
+    const filename = `${name} (conflict ${device} ${formattedDate})${ext}`;
+    return dir === "." ? filename : path.join(dir, filename);
+}
@@ -1,4 +1,6 @@
 import type { TAbstractFile } from "obsidian";
+import type { ActivityEntry } from "../activity";
+import type { ConflictResolution } from "../plugin";
 
 export class EventBus<EventTypes extends Record<string, unknown>> {
     private events: {
@@ -46,6 +48,8 @@ export type ObsidianEventMap = {
     modify: { file: TAbstractFile };
     delete: { file: TAbstractFile };
     rename: { file: TAbstractFile; oldPath: string };
+    // links are the paths linked or embedded by the opened file
+    "file-open": { file: TAbstractFile; links: string[] };
 };
 
 export interface CursorPosition {
@@ -65,3 +69,32 @@ export type CursorEventMap = {
     "local-cursor-update": CursorPosition;
     "trigger-cursor-update": string;
 };
+
+export interface PendingConflict {
+    fileId: number;
+    workspacePath: string;
+    detectedAt: string;
+    localUpdatedAt: string;
+    remoteUpdatedAt: string;
+    localSize: number;
+    remoteSize: number;
+}
+
+export type ConflictEventMap = {
+    "conflicts-list-updated": PendingConflict[];
+    // a null fileId resolves all the pending conflicts
+    "conflict-resolve": { fileId: number | null; strategy: ConflictResolution };
+};
+
+// paused: stopped by the user, offline: the reconnection attempts are over
+export type ConnectionState = "connected" | "reconnecting" | "offline" | "paused";
+
+export interface SyncStatus {
+    state: ConnectionState;
+    // messages waiting for the connection to be sent
+    pending: number;
+}
+
+export type ActivityEventMap = {
+    "activity-recorded": ActivityEntry;
+};
@@ -0,0 +1,51 @@
+import assert from "node:assert";
+import test, { describe } from "node:test";
+import { SyncFilter, globToRegExp } from "./glob";
+
+test("globToRegExp", () => {
+    const tests = [
+        { pattern: ".trash", path: ".trash/note.md", expected: true },
+        { pattern: ".trash/", path: "files/.trash/note.md", expected: true },
+        { pattern: "*.mp4", path: "videos/holidays/clip.mp4", expected: true },
+        { pattern: "*.mp4", path: "clip.mp4.md", expected: false },
+        { pattern: "videos/*.mp4", path: "videos/clip.mp4", expected: true },
+        { pattern: "videos/*.mp4", path: "videos/holidays/clip.mp4", expected: false },
+        { pattern: "videos/*.mp4", path: "other/videos/clip.mp4", expected: false },
+        { pattern: "videos/**/*.mp4", path: "videos/clip.mp4", expected: true },
+        { pattern: "videos/**/*.mp4", path: "videos/a/b/clip.mp4", expected: true },
+        { pattern: "/personal", path: "personal/diary.md", expected: true },
+        { pattern: "/personal", path: "work/personal/diary.md", expected: false },
+        { pattern: "note?.md", path: "note1.md", expected: true },
+        { pattern: "note?.md", path: "note10.md", expected: false },
+        { pattern: "notes (old)", path: "notes (old)/a.md", expected: true },
+    ];
+
+    for (const tt of tests) {
+        assert.strictEqual(
+            globToRegExp(tt.pattern).test(tt.path),
+            tt.expected,
+            `${tt.pattern} ${tt.path}`,
+        );
+    }
+});
+
+describe("SyncFilter", () => {
+    test("should sync everything without rules", () => {
+        const filter = new SyncFilter();
+
+        assert.strictEqual(filter.isSynced("note.md"), true);
+        assert.strictEqual(filter.isSynced("files/image.png"), true);
+    });
+
+    test("should apply include and exclude rules", () => {
+        const filter = new SyncFilter(["notes/", "*.png", ""], ["notes/personal/"]);
+
+        assert.strictEqual(filter.isSynced("notes/a.md"), true);
+        assert.strictEqual(filter.isSynced("files/image.png"), true);
+        assert.strictEqual(filter.isSynced("files/a.md"), false);
+        assert.strictEqual(filter.isSynced("notes/personal/a.md"), false);
+
+        assert.strictEqual(filter.isFolderSynced("files"), true);
+        assert.strictEqual(filter.isFolderSynced("notes/personal"), false);
+    });
+});
@@ -0,0 +1,60 @@
+/**
+ * Converts a glob pattern in a regular expression matching vault paths.
+ * `**` matches any number of folders, `*` and `?` don't match the separator.
+ * Patterns without a separator match at any depth, and a pattern matching a
+ * folder matches also its content.
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let glob = pattern.trim();
+    const anchored = glob.startsWith("/") || glob.replace(/\/+$/, "").includes("/");
+    glob = glob.replace(/^\/+|\/+$/g, "");
+
+    let source = "";
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === "*" && glob[i + 1] === "*") {
+            i++;
+            // "**/" matches also no folders
+            if (glob[i + 1] === "/") {
+                i++;
+                source += "(?:.*/)?";
+            } else {
+                source += ".*";
+            }
+        } else if (char === "*") {
+            source += "[^/]*";
+        } else if (char === "?") {
+            source += "[^/]";
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+        }
+    }
+
+    return new RegExp(`^${anchored ? "" : "(?:.*/)?"}${source}(?:/.*)?$`);
+}
+
+/**
+ * SyncFilter decides which paths are synchronized, a path is synced if it
+ * matches at least an include rule (or there are none) and no exclude rule
+ */
+export class SyncFilter {
+    private include: RegExp[];
+    private exclude: RegExp[];
+
+    constructor(include: string[] = [], exclude: string[] = []) {
+        this.include = include.filter((p) => p.trim() !== "").map(globToRegExp);
+        this.exclude = exclude.filter((p) => p.trim() !== "").map(globToRegExp);
+    }
+
+    isSynced(filepath: string): boolean {
+        if (this.include.length > 0 && !this.include.some((re) => re.test(filepath))) {
+            return false;
+        }
+        return !this.exclude.some((re) => re.test(filepath));
+    }
+
+    // folders can contain included files, so only the exclude rules apply to them
+    isFolderSynced(folderPath: string): boolean {
+        return !this.exclude.some((re) => re.test(folderPath));
+    }
+}
@@ -1,3 +1,47 @@
+import path from "path-browserify";
+import { isText } from "../storage/filetype";
+
+const mimeTypes: Record<string, string> = {
+    md: "text/markdown",
+    txt: "text/plain",
+    csv: "text/csv",
+    html: "text/html",
+    css: "text/css",
+    js: "text/javascript",
+    json: "application/json",
+    canvas: "application/json",
+    pdf: "application/pdf",
+    zip: "application/zip",
+    png: "image/png",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    gif: "image/gif",
+    webp: "image/webp",
+    bmp: "image/bmp",
+    svg: "image/svg+xml",
+    mp3: "audio/mpeg",
+    wav: "audio/wav",
+    ogg: "audio/ogg",
+    m4a: "audio/mp4",
+    flac: "audio/flac",
+    mp4: "video/mp4",
+    webm: "video/webm",
+    mov: "video/quicktime",
+};
+
 export function isTextMime(contentType: string): boolean {
     return contentType.startsWith("text/");
 }
+
+/**
+ * Returns the mime type of a file from its extension
+ */
+export function mimeFromFilename(filename: string): string {
+    const extension = path.extname(filename).slice(1).toLowerCase();
+    const mime = mimeTypes[extension];
+    if (mime) {
+        return mime;
+    }
+
+    return isText(filename) ? "text/plain" : "application/octet-stream";
+}
@@ -0,0 +1,155 @@
+import { ItemView, Setting } from "obsidian";
+import type { IconName, WorkspaceLeaf } from "obsidian";
+import type { ActivityEntry, ActivityFilter, ActivityLog } from "../activity";
+import type { ActivityEventMap, EventBus } from "../utils/eventBus";
+import { formatDate } from "../utils/format";
+
+export const VIEW_TYPE_ACTIVITY = "syncinator-activity-view";
+
+// entries shown in the view, the export contains all of them
+const MAX_SHOWN_ENTRIES = 200;
+
+export class ActivityView extends ItemView {
+    private unsubscribers: Array<() => void> = [];
+    private activityLog: ActivityLog;
+    private filter: ActivityFilter = {};
+    // the file whose history is shown, the path filter is ignored meanwhile
+    private historyPath: string | null = null;
+    private onExport: (filter: ActivityFilter) => Promise<void>;
+
+    constructor(
+        leaf: WorkspaceLeaf,
+        activityLog: ActivityLog,
+        eventBus: EventBus<ActivityEventMap>,
+        onExport: (filter: ActivityFilter) => Promise<void>,
+    ) {
+        super(leaf);
+
+        this.activityLog = activityLog;
+        this.onExport = onExport;
+
+        this.unsubscribers.push(
+            eventBus.on("activity-recorded", async () => {
+                this.updateView();
+            }),
+        );
+    }
+
+    getIcon(): IconName {
+        return "activity";
+    }
+
+    getViewType() {
+        return VIEW_TYPE_ACTIVITY;
+    }
+
+    getDisplayText() {
+        return "Sync activity";
+    }
+
+    async onOpen() {
+        const container = this.containerEl.children[1];
+        container.empty();
+        container.createEl("h4", { text: "Sync activity" });
+
+        new Setting(container as HTMLElement).setName("File").addText((text) =>
+            text.setPlaceholder("path").onChange((value) => {
+                this.filter.path = value.trim() || undefined;
+                this.updateView();
+            }),
+        );
+
+        new Setting(container as HTMLElement)
+            .setName("Filter")
+            .addDropdown((component) =>
+                component
+                    .addOptions({ all: "All", outgoing: "Outgoing", incoming: "Incoming" })
+                    .setValue("all")
+                    .onChange((value) => {
+                        this.filter.direction =
+                            value === "all" ? undefined : (value as ActivityEntry["direction"]);
+                        this.updateView();
+                    }),
+            )
+            .addDropdown((component) =>
+                component
+                    .addOptions({ all: "All", success: "Success", error: "Error" })
+                    .setValue("all")
+                    .onChange((value) => {
+                        this.filter.outcome =
+                            value === "all" ? undefined : (value as ActivityEntry["outcome"]);
+                        this.updateView();
+                    }),
+            )
+            .addButton((button) =>
+                button.setButtonText("Export").onClick(async () => {
+                    await this.onExport({ ...this.filter });
+                }),
+            );
+
+        container.createEl("div", { cls: "activity-history" });
+        container.createEl("div", { cls: "activity-list" });
+        this.updateView();
+    }
+
+    /**
+     * Shows only the entries of the file, null shows the entries of every file
+     */
+    showHistory(path: string | null) {
+        this.historyPath = path;
+        this.updateView();
+    }
+
+    updateView() {
+        const container = this.containerEl.children[1];
+        const historyEl = container.querySelector(".activity-history");
+        const listContainerEl = container.querySelector(".activity-list");
+        if (!historyEl || !listContainerEl) {
+            return;
+        }
+
+        historyEl.empty();
+        if (this.historyPath !== null) {
+            new Setting(historyEl as HTMLElement)
+                .setName(`History of "${this.historyPath}"`)
+                .addButton((button) =>
+                    button.setButtonText("Show all").onClick(() => this.showHistory(null)),
+                );
+        }
+
+        listContainerEl.empty();
+        const entries =
+            this.historyPath !== null
+                ? this.activityLog.history(this.historyPath, this.filter)
+                : this.activityLog.list(this.filter);
+        if (entries.length === 0) {
+            listContainerEl.createEl("p", { text: "No activity" });
+            return;
+        }
+
+        const listEl = listContainerEl.createEl("ul");
+        for (const entry of entries.slice(0, MAX_SHOWN_ENTRIES)) {
+            const el = listEl.createEl("li", { cls: "activity-item" });
+            el.createEl("div", { text: entry.path, cls: "activity-item-path" });
+
+            const arrow = entry.direction === "outgoing" ? "↑" : "↓";
+            const version = entry.version !== undefined ? ` v${entry.version}` : "";
+            el.createEl("small", {
+                text: `${arrow} ${entry.operation}${version}, ${formatDate(entry.timestamp)}`,
+            });
+            if (entry.outcome === "error") {
+                el.createEl("br");
+                el.createEl("small", {
+                    text: `Error: ${entry.error ?? "unknown"}`,
+                    cls: "mod-warning",
+                });
+            }
+        }
+    }
+
+    async onClose() {
+        for (const unsubscribe of this.unsubscribers) {
+            unsubscribe();
+        }
+    }
+}
@@ -0,0 +1,119 @@
+import { ItemView, Setting } from "obsidian";
+import type { IconName, WorkspaceLeaf } from "obsidian";
+import type { ConflictResolution } from "../plugin";
+import type { ConflictEventMap, EventBus, PendingConflict } from "../utils/eventBus";
+import { formatDate, formatSize } from "../utils/format";
+
+export const VIEW_TYPE_CONFLICTS = "syncinator-conflicts-view";
+
+export class ConflictsView extends ItemView {
+    private unsubscribers: Array<() => void> = [];
+    private eventBus: EventBus<ConflictEventMap>;
+    private conflicts: PendingConflict[];
+    private strategy: ConflictResolution = "merge";
+
+    constructor(
+        leaf: WorkspaceLeaf,
+        eventBus: EventBus<ConflictEventMap>,
+        conflicts: PendingConflict[] = [],
+    ) {
+        super(leaf);
+
+        this.eventBus = eventBus;
+        this.conflicts = conflicts;
+
+        this.unsubscribers.push(
+            this.eventBus.on("conflicts-list-updated", async (data) => {
+                this.conflicts = data;
+                this.updateView();
+            }),
+        );
+    }
+
+    getIcon(): IconName {
+        return "git-merge";
+    }
+
+    getViewType() {
+        return VIEW_TYPE_CONFLICTS;
+    }
+
+    getDisplayText() {
+        return "Conflicts";
+    }
+
+    async onOpen() {
+        const container = this.containerEl.children[1];
+        container.empty();
+        container.createEl("h4", { text: "Conflicts" });
+
+        new Setting(container as HTMLElement)
+            .setName("Strategy")
+            .addDropdown((component) =>
+                component
+                    .addOptions({
+                        merge: "Use merge tool",
+                        "three-way": "Three-way merge",
+                        remote: "Remote",
+                        local: "Local",
+                        "keep-both": "Keep both",
+                    })
+                    .setValue(this.strategy)
+                    .onChange((value: ConflictResolution) => {
+                        this.strategy = value;
+                    }),
+            )
+            .addButton((button) =>
+                button.setButtonText("Resolve all").onClick(() => {
+                    this.eventBus.emit("conflict-resolve", {
+                        fileId: null,
+                        strategy: this.strategy,
+                    });
+                }),
+            );
+
+        container.createEl("div", { cls: "conflicts-list" });
+        this.updateView();
+    }
+
+    updateView() {
+        const container = this.containerEl.children[1];
+        const listContainerEl = container.querySelector(".conflicts-list");
+        if (!listContainerEl) {
+            return;
+        }
+
+        listContainerEl.empty();
+        if (this.conflicts.length === 0) {
+            listContainerEl.createEl("p", { text: "No pending conflicts" });
+            return;
+        }
+
+        const listEl = listContainerEl.createEl("ul");
+        for (const conflict of this.conflicts) {
+            const el = listEl.createEl("li", { cls: "conflict-item" });
+            el.createEl("div", { text: conflict.workspacePath, cls: "conflict-item-path" });
+            el.createEl("small", {
+                text: `Local: ${formatDate(conflict.localUpdatedAt)} (${formatSize(conflict.localSize)})`,
+            });
+            el.createEl("br");
+            el.createEl("small", {
+                text: `Remote: ${formatDate(conflict.remoteUpdatedAt)} (${formatSize(conflict.remoteSize)})`,
+            });
+
+            const button = el.createEl("button", { text: "Resolve" });
+            button.onclick = () => {
+                this.eventBus.emit("conflict-resolve", {
+                    fileId: conflict.fileId,
+                    strategy: this.strategy,
+                });
+            };
+        }
+    }
+
+    async onClose() {
+        for (const unsubscribe of this.unsubscribers) {
+            unsubscribe();
+        }
+    }
+}
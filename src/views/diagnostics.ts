@@ -0,0 +1,110 @@
+import { ItemView, Setting } from "obsidian";
+import type { IconName, WorkspaceLeaf } from "obsidian";
+import type { MetricsSnapshot } from "../metrics";
+import { formatSize } from "../utils/format";
+
+export const VIEW_TYPE_DIAGNOSTICS = "syncinator-diagnostics-view";
+
+const REFRESH_INTERVAL_MS = 2_000;
+
+export class DiagnosticsView extends ItemView {
+    private getMetrics: () => MetricsSnapshot | undefined;
+    private onReset: () => void;
+
+    constructor(
+        leaf: WorkspaceLeaf,
+        getMetrics: () => MetricsSnapshot | undefined,
+        onReset: () => void,
+    ) {
+        super(leaf);
+
+        this.getMetrics = getMetrics;
+        this.onReset = onReset;
+    }
+
+    getIcon(): IconName {
+        return "gauge";
+    }
+
+    getViewType() {
+        return VIEW_TYPE_DIAGNOSTICS;
+    }
+
+    getDisplayText() {
+        return "Sync diagnostics";
+    }
+
+    async onOpen() {
+        const container = this.containerEl.children[1];
+        container.empty();
+        container.createEl("h4", { text: "Sync diagnostics" });
+
+        new Setting(container as HTMLElement)
+            .addButton((button) =>
+                button.setButtonText("Refresh").onClick(() => {
+                    this.updateView();
+                }),
+            )
+            .addButton((button) =>
+                button.setButtonText("Reset").onClick(() => {
+                    this.onReset();
+                    this.updateView();
+                }),
+            );
+
+        container.createEl("div", { cls: "diagnostics" });
+        this.updateView();
+        this.registerInterval(window.setInterval(() => this.updateView(), REFRESH_INTERVAL_MS));
+    }
+
+    updateView() {
+        const container = this.containerEl.children[1];
+        const metricsEl = container.querySelector(".diagnostics");
+        if (!metricsEl) {
+            return;
+        }
+
+        metricsEl.empty();
+        const metrics = this.getMetrics();
+        if (!metrics) {
+            metricsEl.createEl("p", { text: "Sync not started" });
+            return;
+        }
+
+        metricsEl.createEl("small", {
+            text: `Since ${new Date(metrics.startedAt).toLocaleString()}`,
+        });
+
+        metricsEl.createEl("h6", { text: "Counters" });
+        const counters = Object.entries(metrics.counters).sort(([a], [b]) => a.localeCompare(b));
+        if (counters.length === 0) {
+            metricsEl.createEl("p", { text: "Nothing counted yet" });
+        } else {
+            const listEl = metricsEl.createEl("ul");
+            for (const [name, value] of counters) {
+                listEl.createEl("li", { text: `${name}: ${formatCounter(name, value)}` });
+            }
+        }
+
+        metricsEl.createEl("h6", { text: "Timings" });
+        const timings = Object.entries(metrics.timings).sort(([a], [b]) => a.localeCompare(b));
+        if (timings.length === 0) {
+            metricsEl.createEl("p", { text: "Nothing measured yet" });
+        } else {
+            const listEl = metricsEl.createEl("ul");
+            for (const [name, stats] of timings) {
+                listEl.createEl("li", {
+                    text: `${name}: avg ${formatMs(stats.avg)}, min ${formatMs(stats.min)}, max ${formatMs(stats.max)}, last ${formatMs(stats.last)} (${stats.count})`,
+                });
+            }
+        }
+    }
+}
+
+function formatCounter(name: string, value: number): string {
+    return name.toLowerCase().includes("bytes") ? formatSize(value) : value.toString();
+}
+
+function formatMs(ms: number): string {
+    return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(2)}s`;
+}